@@ -1,21 +1,76 @@
 import React, { useEffect, useMemo, useRef, useState } from "react";
 import {
   encodeMessage,
+  validateClientMessage,
   GAME_CONSTANTS,
+  MAP_STYLES,
+  BOT_DIFFICULTIES,
+  emptyCustomMap,
   type GameMode,
+  type MapStyle,
+  type BotDifficulty,
   type DifficultyMode,
   type MatchPreset,
   simulateShot,
+  deserializeTerrain,
+  parseShotFunction,
+  MalformedFunctionError,
+  type SourceSpan,
   type ShotResult,
   type RoomState,
   type RoomSummary,
   type ServerToClientMessage,
   type PlayerStats,
+  type MatchReplay,
+  type SavedMapSummary,
 } from "@graphwar/shared";
 import { GameCanvas } from "./GameCanvas";
+import { describeError } from "./errorMessages";
+import { ReplayViewer } from "./ReplayViewer";
+import { MapEditor } from "./MapEditor";
 
 const DEFAULT_WS_URL = "ws://localhost:8080/ws";
 
+// Per-tab session token so a dropped socket (or a page reload) can reclaim its seat via session.resume.
+const SESSION_STORAGE_KEY = "graphwar.sessionToken";
+const RECONNECT_DELAYS_MS = [500, 1000, 2000, 4000, 8000, 15000];
+
+function loadSessionToken(): string | null {
+  try {
+    return window.sessionStorage.getItem(SESSION_STORAGE_KEY);
+  } catch {
+    return null;
+  }
+}
+
+function saveSessionToken(token: string) {
+  try {
+    window.sessionStorage.setItem(SESSION_STORAGE_KEY, token);
+  } catch {
+    // Storage can be disabled (private mode); reconnect just won't survive a reload.
+  }
+}
+
+// Edit keys of the maps saved from this browser, by map id: holding one is what lets you delete the map.
+const MAP_KEYS_STORAGE_KEY = "graphwar.mapEditKeys";
+
+function loadMapEditKeys(): Record<number, string> {
+  try {
+    const parsed: unknown = JSON.parse(window.localStorage.getItem(MAP_KEYS_STORAGE_KEY) ?? "{}");
+    return parsed && typeof parsed === "object" ? (parsed as Record<number, string>) : {};
+  } catch {
+    return {};
+  }
+}
+
+function saveMapEditKeys(keys: Record<number, string>) {
+  try {
+    window.localStorage.setItem(MAP_KEYS_STORAGE_KEY, JSON.stringify(keys));
+  } catch {
+    // Storage can be disabled (private mode); the maps saved here just can't be deleted later.
+  }
+}
+
 type ChatLine = { from: string; text: string; ts: number };
 
 function distSq(a: { x: number; y: number }, b: { x: number; y: number }) {
@@ -24,10 +79,44 @@ function distSq(a: { x: number; y: number }, b: { x: number; y: number }) {
   return dx * dx + dy * dy;
 }
 
+type FunctionDiagnostic = { text: string; span?: SourceSpan };
+
+const SOLDIER_COUNT_OPTIONS = Array.from({ length: GAME_CONSTANTS.MAX_SOLDIERS_PER_PLAYER }, (_, i) => i + 1);
+
+const MAP_STYLE_LABELS: Record<MapStyle, string> = {
+  moon: "moon rocks",
+  hills: "hills",
+  maze: "maze",
+  islands: "floating islands",
+  sandbox: "sandbox (empty)",
+};
+
+// 0 is unlimited / off in all three.
+const HINTS_PER_MATCH_OPTIONS = [0, 1, 2, 3, 5, 10].filter((n) => n <= GAME_CONSTANTS.MAX_HINTS_PER_MATCH);
+const HINT_COOLDOWN_OPTIONS = Array.from({ length: GAME_CONSTANTS.MAX_HINT_COOLDOWN_TURNS + 1 }, (_, i) => i);
+const HINT_KILL_PENALTY_OPTIONS = [0, 0.25, 0.5, 1];
+
+function formatScore(n: number): string {
+  return String(Math.round(n * 100) / 100);
+}
+
+const BOT_DIFFICULTY_LABELS: Record<BotDifficulty, string> = {
+  easy: "easy",
+  medium: "medium",
+  hard: "hard",
+  perfect: "perfect aim",
+};
+
 function clamp(n: number, min: number, max: number) {
   return Math.max(min, Math.min(max, n));
 }
 
+// Placeholder hints are written as y(x); parametric mode traces the same curve with x = t.
+// (They have no r(θ) form, so the buttons are disabled in polar mode.)
+function forMode(mode: GameMode, expr: string) {
+  return mode === "parametric" ? `t; ${expr.replace(/x/g, "t")}` : expr;
+}
+
 export function App() {
   const debugGemini = (() => {
     try {
@@ -43,6 +132,9 @@ export function App() {
   const [clientId, setClientId] = useState<string | null>(null);
 
   const wsRef = useRef<WebSocket | null>(null);
+  const manualCloseRef = useRef(false);
+  const reconnectAttemptRef = useRef(0);
+  const [reconnecting, setReconnecting] = useState(false);
 
   const [rooms, setRooms] = useState<RoomSummary[]>([]);
   const [room, setRoom] = useState<RoomState | null>(null);
@@ -54,20 +146,52 @@ export function App() {
   const [newRoomName, setNewRoomName] = useState("My Room");
   const [newRoomPreset, setNewRoomPreset] = useState<MatchPreset>("1vX");
   const [newRoomDifficulty, setNewRoomDifficulty] = useState<DifficultyMode>("practice");
+  const [newRoomSoldiers, setNewRoomSoldiers] = useState(1);
+  const [newRoomMapStyle, setNewRoomMapStyle] = useState<MapStyle>("moon");
   const [chatText, setChatText] = useState("");
+  const [matchSeed, setMatchSeed] = useState("");
 
   const [functionString, setFunctionString] = useState("x");
+  const [functionError, setFunctionError] = useState<FunctionDiagnostic | null>(null);
+  const functionInputRef = useRef<HTMLInputElement | null>(null);
   const [angle, setAngle] = useState(0);
   const [mode, setMode] = useState<GameMode>("normal");
 
   const [showCoordinates, setShowCoordinates] = useState(false);
 
   const [dismissedGameOverAt, setDismissedGameOverAt] = useState<number | null>(null);
+  const [replay, setReplay] = useState<MatchReplay | null>(null);
+  const [mapEditorOpen, setMapEditorOpen] = useState(false);
+  const [botDifficulty, setBotDifficulty] = useState<BotDifficulty>("medium");
+  const [savedMaps, setSavedMaps] = useState<SavedMapSummary[]>([]);
+  const [mapEditKeys, setMapEditKeys] = useState<Record<number, string>>(loadMapEditKeys);
+  const [savedMapsAvailable, setSavedMapsAvailable] = useState(true);
+  const [mapQuery, setMapQuery] = useState("");
+  const [newRoomMapId, setNewRoomMapId] = useState<number | null>(null);
+  const [mapsNotice, setMapsNotice] = useState<string | null>(null);
+
+  // Parse locally while typing so mistakes are pointed out before firing.
+  const functionDiagnostic = useMemo<FunctionDiagnostic | null>(() => {
+    if (!functionString.trim()) return null;
+    try {
+      parseShotFunction(mode, functionString);
+      return null;
+    } catch (e) {
+      return e instanceof MalformedFunctionError ? { text: e.message, span: e.span } : null;
+    }
+  }, [mode, functionString]);
+  const shownFunctionError = functionError ?? functionDiagnostic;
 
   const inRoom = !!room;
 
   const inGame = room?.gameState === "in_game" && !!room.game;
   const isMyTurn = inGame && !!clientId && room.game!.currentTurnClientId === clientId;
+  const isSpectator = !!room && !!clientId && room.spectators.some((s) => s.clientId === clientId);
+  const myGamePlayer = inGame && clientId ? room.game!.players.find((p) => p.clientId === clientId) : undefined;
+  const hintsLeft =
+    room && room.config.hintsPerMatch > 0 ? Math.max(0, room.config.hintsPerMatch - (myGamePlayer?.hintsUsed ?? 0)) : null;
+  // Counted from the current turn, so only meaningful on your own.
+  const hintCooldownTurns = isMyTurn ? myGamePlayer?.hintCooldownTurns ?? 0 : 0;
 
   const lastGameOver = room?.gameState === "lobby" ? room?.lastGameOver ?? null : null;
   const showGameOverPanel = !!lastGameOver && dismissedGameOverAt !== lastGameOver.endedAt;
@@ -141,6 +265,15 @@ export function App() {
         console.log("Tip: add ?debugGemini=1 to receive server-side LLM HTTP debug events in hint.response");
       }
     }
+    if (typeof msg !== "string") {
+      // Same checks the server runs; catch bad input here instead of waiting for a round trip.
+      const checked = validateClientMessage(msg);
+      if (!checked.ok) {
+        const text = describeError("invalid_message", { field: checked.field });
+        setChat((prev) => prev.concat({ from: "client", text, ts: Date.now() }));
+        return;
+      }
+    }
     ws.send(typeof msg === "string" ? msg : encodeMessage(msg));
   }
 
@@ -151,18 +284,42 @@ export function App() {
     wsRef.current = ws;
 
     ws.onopen = () => {
+      const isReconnect = reconnectAttemptRef.current > 0;
+      reconnectAttemptRef.current = 0;
+      setReconnecting(false);
       setConnected(true);
-      setChat([]);
+      if (!isReconnect) setChat([]);
       setClientId(null);
       setMyStats(null);
       setLeaderboard([]);
+      // Read the token before this socket's own welcome overwrites it.
+      const sessionToken = loadSessionToken();
+      if (sessionToken) send({ type: "session.resume", sessionToken });
       send({ type: "hello", name });
       // Best-effort; server will ignore if DB isn't enabled.
       send({ type: "stats.get", top: 5 });
+      send({ type: "maps.list" });
     };
 
     ws.onclose = () => {
+      // A socket we replaced ourselves must not touch the UI.
+      if (wsRef.current !== ws) return;
       setConnected(false);
+
+      const wasManual = manualCloseRef.current;
+      manualCloseRef.current = false;
+      if (!wasManual && reconnectAttemptRef.current < RECONNECT_DELAYS_MS.length) {
+        // Keep the room on screen while we try to resume the session.
+        const delay = RECONNECT_DELAYS_MS[reconnectAttemptRef.current++]!;
+        setReconnecting(true);
+        setTimeout(() => {
+          if (wsRef.current === ws) connect();
+        }, delay);
+        return;
+      }
+
+      reconnectAttemptRef.current = 0;
+      setReconnecting(false);
       setRoom(null);
       setMyStats(null);
       setLeaderboard([]);
@@ -180,6 +337,7 @@ export function App() {
 
       if (msg.type === "welcome") {
         setClientId(msg.clientId);
+        saveSessionToken(msg.sessionToken);
       } else if (msg.type === "lobby.state") {
         setRooms(msg.rooms);
       } else if (msg.type === "room.state") {
@@ -197,11 +355,37 @@ export function App() {
         setMyStats(msg.stats);
       } else if (msg.type === "stats.leaderboard") {
         setLeaderboard(msg.entries);
+      } else if (msg.type === "maps.list") {
+        setSavedMaps(msg.maps);
+        setSavedMapsAvailable(msg.available);
+      } else if (msg.type === "maps.saved") {
+        setMapEditKeys((prev) => {
+          const next = { ...prev, [msg.map.id]: msg.editKey };
+          saveMapEditKeys(next);
+          return next;
+        });
+        setMapsNotice(`Saved "${msg.map.name}" to the server.`);
+        send({ type: "maps.list" });
+      } else if (msg.type === "maps.deleted") {
+        setMapEditKeys((prev) => {
+          const { [msg.id]: _deleted, ...next } = prev;
+          saveMapEditKeys(next);
+          return next;
+        });
+        setSavedMaps((prev) => prev.filter((m) => m.id !== msg.id));
+        setNewRoomMapId((id) => (id === msg.id ? null : id));
+      } else if (msg.type === "replay.data") {
+        if (msg.replay) setReplay(msg.replay);
+        else setChat((prev) => prev.concat({ from: "server", text: "No replay available yet", ts: Date.now() }));
       } else if (msg.type === "hint.response") {
         // eslint-disable-next-line no-console
         console.log("[WS recv] hint.response", msg);
         setHintThinking(null);
         setFunctionString(msg.functionString);
+        if (msg.angle != null) {
+          setAngle(msg.angle);
+          send({ type: "game.setAngle", angle: msg.angle });
+        }
         if (debugGemini && msg.debug?.events) {
           // eslint-disable-next-line no-console
           console.log("[LLM debug events]", msg.debug.events);
@@ -222,7 +406,24 @@ export function App() {
           setHintThinking(null);
         }
       } else if (msg.type === "error") {
-        setChat((prev) => prev.concat({ from: "server", text: msg.message, ts: Date.now() }));
+        const text = describeError(msg.code, msg.details, msg.message);
+        switch (msg.code) {
+          case "session_expired":
+            // The fresh session from this connection's welcome simply carries on.
+            break;
+          case "malformed_function":
+          case "function_required": {
+            const span = msg.details?.span;
+            setFunctionError({ text, span });
+            if (span) {
+              functionInputRef.current?.focus();
+              functionInputRef.current?.setSelectionRange(span.start, span.end);
+            }
+            break;
+          }
+          default:
+            setChat((prev) => prev.concat({ from: "server", text, ts: Date.now() }));
+        }
       }
     };
   }
@@ -235,9 +436,17 @@ export function App() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [connected, lastGameOver?.endedAt]);
 
+  // Terrain arrives run-length encoded; decode it once per carve, not on every room.state.
+  const serializedTerrain = room?.game?.terrain;
+  const terrain = useMemo(
+    () => (serializedTerrain ? deserializeTerrain(serializedTerrain) : null),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [serializedTerrain?.bitmap],
+  );
+
   useEffect(() => {
     // Live trajectory preview while typing, only for the current player.
-    if (!inGame || !room?.game || !clientId || !isMyTurn) {
+    if (!inGame || !room?.game || !terrain || !clientId || !isMyTurn) {
       setPreviewShot(null);
       return;
     }
@@ -271,7 +480,7 @@ export function App() {
         const shot = simulateShot({
           mode,
           functionString,
-          terrain: room.game!.terrain,
+          terrain,
           players: players as any,
           currentTurnIndex,
           maxSteps: 3500,
@@ -285,7 +494,7 @@ export function App() {
     }, 120);
 
     return () => clearTimeout(t);
-  }, [inGame, isMyTurn, room, clientId, functionString, angle, mode]);
+  }, [inGame, isMyTurn, room, terrain, clientId, functionString, angle, mode]);
 
   const topBar = (
     <section className="gw-panel gw-topBar">
@@ -305,7 +514,7 @@ export function App() {
         </>
       ) : (
         <div className="gw-muted" style={{ fontSize: 12 }}>
-          {connected ? "Connected" : "Disconnected"}
+          {connected ? "Connected" : reconnecting ? "Reconnecting..." : "Disconnected"}
           {clientId ? ` • id: ${clientId.slice(0, 6)}` : ""}
           {room ? ` • room: ${room.name}` : ""}
         </div>
@@ -314,6 +523,7 @@ export function App() {
       <button
         className="gw-btn"
         onClick={() => {
+          manualCloseRef.current = true;
           wsRef.current?.close();
         }}
         disabled={!connected}
@@ -363,13 +573,50 @@ export function App() {
               <option value="hard">hard (no hints)</option>
             </select>
           </label>
+          <label className="gw-field">
+            soldiers
+            <select
+              className="gw-select"
+              value={newRoomSoldiers}
+              onChange={(e) => setNewRoomSoldiers(Number(e.target.value))}
+              disabled={!connected}
+            >
+              {SOLDIER_COUNT_OPTIONS.map((n) => (
+                <option key={n} value={n}>
+                  {n} per player
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="gw-field">
+            map
+            <select
+              className="gw-select"
+              value={newRoomMapStyle}
+              onChange={(e) => setNewRoomMapStyle(e.target.value as MapStyle)}
+              disabled={!connected || newRoomMapId !== null}
+              title={newRoomMapId !== null ? "Using the saved map picked below" : undefined}
+            >
+              {MAP_STYLES.map((m) => (
+                <option key={m} value={m}>
+                  {MAP_STYLE_LABELS[m]}
+                </option>
+              ))}
+            </select>
+          </label>
           <button
             className="gw-btn gw-btnPrimary"
             onClick={() =>
               send({
                 type: "room.create",
                 name: newRoomName,
-                config: { preset: newRoomPreset, difficulty: newRoomDifficulty },
+                config: {
+                  preset: newRoomPreset,
+                  difficulty: newRoomDifficulty,
+                  soldiersPerPlayer: newRoomSoldiers,
+                  mapStyle: newRoomMapStyle,
+                },
+                mapId: newRoomMapId ?? undefined,
               })
             }
             disabled={!connected}
@@ -378,9 +625,14 @@ export function App() {
           </button>
         </div>
 
-        <button className="gw-btn" onClick={() => send({ type: "lobby.listRooms" })} disabled={!connected}>
-          Refresh rooms
-        </button>
+        <div className="gw-row">
+          <button className="gw-btn" onClick={() => send({ type: "lobby.listRooms" })} disabled={!connected}>
+            Refresh rooms
+          </button>
+          <button className="gw-btn" onClick={() => setMapEditorOpen(true)}>
+            Map editor
+          </button>
+        </div>
 
         <ul className="gw-list">
           {rooms.map((r) => (
@@ -388,15 +640,91 @@ export function App() {
               <div style={{ minWidth: 0 }}>
                 <strong>{r.name}</strong>
                 <div className="gw-listMeta">
-                  players: {r.numPlayers}/{r.maxPlayers} • preset: {r.preset} • mode: {r.difficulty} • state: {r.gameState}
+                  players: {r.numPlayers}/{r.maxPlayers} • preset: {r.preset} • mode: {r.difficulty} • function: {r.mode}
+                  {r.perTurnMode ? " (per turn)" : ""} • map: {r.customMapName ? `custom (${r.customMapName})` : r.mapStyle} •
+                  state: {r.gameState}
+                  {r.botDifficulties.length ? ` • bots: ${r.botDifficulties.join(", ")}` : ""}
+                  {r.numSpectators ? ` • watching: ${r.numSpectators}` : ""}
                 </div>
               </div>
-              <button className="gw-btn gw-btnPrimary" onClick={() => send({ type: "room.join", roomId: r.id })} disabled={!connected}>
-                Join
-              </button>
+              <div className="gw-row" style={{ flexWrap: "nowrap" }}>
+                <button className="gw-btn" onClick={() => send({ type: "room.spectate", roomId: r.id })} disabled={!connected}>
+                  Watch
+                </button>
+                <button
+                  className="gw-btn gw-btnPrimary"
+                  onClick={() => send({ type: "room.join", roomId: r.id })}
+                  disabled={!connected || r.gameState === "in_game"}
+                >
+                  Join
+                </button>
+              </div>
             </li>
           ))}
         </ul>
+
+        <h3>Saved maps</h3>
+        {savedMapsAvailable ? (
+          <>
+            <div className="gw-row" style={{ alignItems: "end" }}>
+              <label className="gw-field" style={{ flex: 1 }}>
+                search
+                <input
+                  className="gw-input"
+                  value={mapQuery}
+                  onChange={(e) => setMapQuery(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") send(mapQuery.trim() ? { type: "maps.search", query: mapQuery } : { type: "maps.list" });
+                  }}
+                  placeholder="map name or author"
+                  disabled={!connected}
+                />
+              </label>
+              <button
+                className="gw-btn"
+                onClick={() => send(mapQuery.trim() ? { type: "maps.search", query: mapQuery } : { type: "maps.list" })}
+                disabled={!connected}
+              >
+                Search
+              </button>
+            </div>
+            {mapsNotice ? <div className="gw-muted" style={{ fontSize: 12 }}>{mapsNotice}</div> : null}
+            <ul className="gw-list">
+              {savedMaps.map((m) => (
+                <li key={m.id} className="gw-listItem">
+                  <div style={{ minWidth: 0 }}>
+                    <strong>{m.name}</strong>
+                    <div className="gw-listMeta">
+                      by {m.author} • played {m.playCount} {m.playCount === 1 ? "time" : "times"}
+                    </div>
+                  </div>
+                  <div className="gw-row" style={{ flexWrap: "nowrap" }}>
+                    {mapEditKeys[m.id] ? (
+                      <button
+                        className="gw-btn gw-btnDanger"
+                        onClick={() => send({ type: "maps.delete", id: m.id, editKey: mapEditKeys[m.id]! })}
+                        disabled={!connected}
+                      >
+                        Delete
+                      </button>
+                    ) : null}
+                    <button
+                      className={newRoomMapId === m.id ? "gw-btn gw-btnPrimary" : "gw-btn"}
+                      onClick={() => setNewRoomMapId((id) => (id === m.id ? null : m.id))}
+                      disabled={!connected}
+                      title="Create the next room on this map"
+                    >
+                      {newRoomMapId === m.id ? "Picked" : "Pick"}
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+            {!savedMaps.length ? <div className="gw-faint" style={{ fontSize: 12 }}>No saved maps yet.</div> : null}
+          </>
+        ) : (
+          <div className="gw-faint" style={{ fontSize: 12 }}>Saved maps need the server database.</div>
+        )}
       </div>
 
       <div className="gw-panel gw-stack">
@@ -406,7 +734,14 @@ export function App() {
             <div>
               <strong>{room.name}</strong>
               <div className="gw-muted" style={{ fontSize: 12 }}>
-                state: {room.gameState} • players: {room.players.length}/{room.config.maxPlayers} • preset: {room.config.preset} • mode: {room.config.difficulty}
+                state: {room.gameState} • players: {room.players.length}/{room.config.maxPlayers} • preset: {room.config.preset} • mode: {room.config.difficulty} • function: {room.config.mode}
+                {room.config.perTurnMode ? " (per turn)" : ""} • soldiers: {room.config.soldiersPerPlayer} • map:{" "}
+                {room.customMap ? `custom (${room.customMap.name})` : room.config.mapStyle}
+                {room.config.difficulty === "practice"
+                  ? ` • hints: ${room.config.hintsPerMatch || "unlimited"}${
+                      room.config.hintCooldownTurns ? `, cooldown ${room.config.hintCooldownTurns}` : ""
+                    }${room.config.hintKillPenalty ? `, hinted kill −${room.config.hintKillPenalty}` : ""}`
+                  : ""}
               </div>
             </div>
 
@@ -440,9 +775,162 @@ export function App() {
                       <option value="hard">hard (no hints)</option>
                     </select>
                   </label>
-                  <button className="gw-btn" onClick={() => send({ type: "room.addBot" })} disabled={!connected}>
+                  <label className="gw-field">
+                    function
+                    <select
+                      className="gw-select"
+                      value={room.config.mode}
+                      onChange={(e) => send({ type: "game.setMode", mode: e.target.value as GameMode })}
+                      disabled={!connected}
+                    >
+                      <option value="normal">normal</option>
+                      <option value="fst_ode">fst_ode</option>
+                      <option value="snd_ode">snd_ode</option>
+                      <option value="parametric">parametric</option>
+                      <option value="polar">polar</option>
+                    </select>
+                  </label>
+                  <label className="gw-field">
+                    function rule
+                    <select
+                      className="gw-select"
+                      value={room.config.perTurnMode ? "per_turn" : "fixed"}
+                      onChange={(e) =>
+                        send({ type: "room.setConfig", config: { perTurnMode: e.target.value === "per_turn" } })
+                      }
+                      disabled={!connected}
+                    >
+                      <option value="fixed">fixed for match</option>
+                      <option value="per_turn">shooter picks per turn</option>
+                    </select>
+                  </label>
+                  <label className="gw-field">
+                    soldiers
+                    <select
+                      className="gw-select"
+                      value={room.config.soldiersPerPlayer}
+                      onChange={(e) =>
+                        send({ type: "room.setConfig", config: { soldiersPerPlayer: Number(e.target.value) } })
+                      }
+                      disabled={!connected}
+                    >
+                      {SOLDIER_COUNT_OPTIONS.map((n) => (
+                        <option key={n} value={n}>
+                          {n} per player
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="gw-field">
+                    map
+                    <select
+                      className="gw-select"
+                      value={room.config.mapStyle}
+                      onChange={(e) => send({ type: "room.setConfig", config: { mapStyle: e.target.value as MapStyle } })}
+                      disabled={!connected}
+                    >
+                      {MAP_STYLES.map((m) => (
+                        <option key={m} value={m}>
+                          {MAP_STYLE_LABELS[m]}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  {room.config.difficulty === "practice" ? (
+                    <>
+                      <label className="gw-field">
+                        hints
+                        <select
+                          className="gw-select"
+                          value={room.config.hintsPerMatch}
+                          onChange={(e) =>
+                            send({ type: "room.setConfig", config: { hintsPerMatch: Number(e.target.value) } })
+                          }
+                          disabled={!connected}
+                        >
+                          {HINTS_PER_MATCH_OPTIONS.map((n) => (
+                            <option key={n} value={n}>
+                              {n === 0 ? "unlimited" : `${n} per match`}
+                            </option>
+                          ))}
+                        </select>
+                      </label>
+                      <label className="gw-field">
+                        hint cooldown
+                        <select
+                          className="gw-select"
+                          value={room.config.hintCooldownTurns}
+                          onChange={(e) =>
+                            send({ type: "room.setConfig", config: { hintCooldownTurns: Number(e.target.value) } })
+                          }
+                          disabled={!connected}
+                        >
+                          {HINT_COOLDOWN_OPTIONS.map((n) => (
+                            <option key={n} value={n}>
+                              {n === 0 ? "none" : `skip ${n} turn${n > 1 ? "s" : ""}`}
+                            </option>
+                          ))}
+                        </select>
+                      </label>
+                      <label className="gw-field">
+                        hinted kill
+                        <select
+                          className="gw-select"
+                          value={room.config.hintKillPenalty}
+                          onChange={(e) =>
+                            send({ type: "room.setConfig", config: { hintKillPenalty: Number(e.target.value) } })
+                          }
+                          disabled={!connected}
+                        >
+                          {HINT_KILL_PENALTY_OPTIONS.map((n) => (
+                            <option key={n} value={n}>
+                              {n === 0 ? "full point" : n === 1 ? "no point" : `−${n} point`}
+                            </option>
+                          ))}
+                        </select>
+                      </label>
+                    </>
+                  ) : null}
+                  <label className="gw-field" style={{ width: 140 }}>
+                    seed
+                    <input
+                      className="gw-input"
+                      value={matchSeed}
+                      onChange={(e) => setMatchSeed(e.target.value.replace(/[^0-9]/g, ""))}
+                      placeholder="random"
+                      disabled={!connected}
+                    />
+                  </label>
+                  <label className="gw-field">
+                    bot level
+                    <select
+                      className="gw-select"
+                      value={botDifficulty}
+                      onChange={(e) => setBotDifficulty(e.target.value as BotDifficulty)}
+                      disabled={!connected}
+                    >
+                      {BOT_DIFFICULTIES.map((d) => (
+                        <option key={d} value={d}>
+                          {BOT_DIFFICULTY_LABELS[d]}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <button
+                    className="gw-btn"
+                    onClick={() => send({ type: "room.addBot", difficulty: botDifficulty })}
+                    disabled={!connected}
+                  >
                     Add bot
                   </button>
+                  <button className="gw-btn" onClick={() => setMapEditorOpen(true)} disabled={!connected}>
+                    {room.customMap ? "Edit custom map" : "Custom map…"}
+                  </button>
+                  {room.customMap ? (
+                    <button className="gw-btn" onClick={() => send({ type: "room.setMap", map: null })} disabled={!connected}>
+                      Use generated map
+                    </button>
+                  ) : null}
                 </div>
               ) : (
                 <div className="gw-faint" style={{ fontSize: 12 }}>
@@ -454,7 +942,8 @@ export function App() {
                   {room.players.map((p) => (
                     <li key={p.clientId} className="gw-listItem" style={{ justifyContent: "space-between" }}>
                       <div style={{ minWidth: 0 }}>
-                        <strong>{p.name}</strong> {p.isBot ? <span className="gw-badge">bot</span> : null}{" "}
+                        <strong>{p.name}</strong> {p.isBot ? <span className="gw-badge">bot{p.botDifficulty ? ` · ${p.botDifficulty}` : ""}</span> : null}{" "}
+                        {p.connected === false ? <span className="gw-badge">reconnecting</span> : null}{" "}
                         {p.ready ? <span className="gw-badge">ready</span> : <span className="gw-badge">not ready</span>}
                       </div>
                       {clientId === room.ownerClientId && room.gameState === "lobby" && p.isBot ? (
@@ -470,15 +959,30 @@ export function App() {
                   ))}
                 </ul>
 
+                {room.spectators.length ? (
+                  <div className="gw-faint" style={{ fontSize: 12 }}>
+                    Spectators: {room.spectators.map((sp) => sp.name).join(", ")}
+                  </div>
+                ) : null}
+
                 <div className="gw-row">
+                  {isSpectator ? (
+                    <button className="gw-btn gw-btnPrimary" onClick={() => send({ type: "room.join", roomId: room.id })} disabled={!connected}>
+                      Join as player
+                    </button>
+                  ) : null}
                   <button
                     className={`gw-btn ${ready ? "gw-btnReady" : ""}`}
                     onClick={() => send({ type: "player.ready", ready: !ready })}
-                    disabled={!connected}
+                    disabled={!connected || isSpectator}
                   >
                     {ready ? "Unready" : "Ready"}
                   </button>
-                  <button className="gw-btn gw-btnPrimary" onClick={() => send({ type: "game.start" })} disabled={!connected}>
+                  <button
+                    className="gw-btn gw-btnPrimary"
+                    onClick={() => send({ type: "game.start", seed: matchSeed ? Number(matchSeed) : undefined })}
+                    disabled={!connected || isSpectator}
+                  >
                     Start
                   </button>
                   <button
@@ -615,10 +1119,62 @@ export function App() {
           Winners: {lastGameOver.winners.map((w) => w.name).join(", ")}
         </div>
       ) : null}
+      {lastGameOver.players.length ? (
+        <table className="gw-muted" style={{ fontSize: 13, borderSpacing: "12px 2px", marginLeft: -12 }}>
+          <thead>
+            <tr style={{ textAlign: "left" }}>
+              <th>player</th>
+              <th>team</th>
+              <th>kills</th>
+              <th>hints</th>
+              <th>hinted kills</th>
+              <th>score</th>
+            </tr>
+          </thead>
+          <tbody>
+            {[...lastGameOver.players]
+              .sort((a, b) => b.score - a.score)
+              .map((p) => (
+                <tr key={p.clientId}>
+                  <td>{p.name}</td>
+                  <td>{p.team}</td>
+                  <td>{p.kills}</td>
+                  <td>{p.hintsUsed}</td>
+                  <td>{p.hintedKills}</td>
+                  <td>
+                    <strong>{formatScore(p.score)}</strong>
+                  </td>
+                </tr>
+              ))}
+          </tbody>
+        </table>
+      ) : null}
+      {lastGameOver.hintKillPenalty ? (
+        <div className="gw-faint" style={{ fontSize: 12 }}>
+          Score: one point per kill; kills made on a hinted turn lose {formatScore(lastGameOver.hintKillPenalty)}.
+        </div>
+      ) : null}
+      <div className="gw-faint" style={{ fontSize: 12 }}>
+        Map seed: <strong>{lastGameOver.seed}</strong>
+      </div>
       <div className="gw-row">
         <button className="gw-btn gw-btnPrimary" onClick={() => setDismissedGameOverAt(lastGameOver.endedAt)}>
           Play again (back to room)
         </button>
+        {clientId === room.ownerClientId ? (
+          <button
+            className="gw-btn"
+            onClick={() => {
+              setMatchSeed(String(lastGameOver.seed));
+              setDismissedGameOverAt(lastGameOver.endedAt);
+            }}
+          >
+            Rematch on this map
+          </button>
+        ) : null}
+        <button className="gw-btn" onClick={() => send({ type: "replay.get" })} disabled={!connected}>
+          Watch replay
+        </button>
         <button
           className="gw-btn"
           onClick={() => {
@@ -644,6 +1200,7 @@ export function App() {
           <div className="gw-muted" style={{ fontSize: 12 }}>
             Turn: {room?.game?.players.find((p) => p.clientId === room.game!.currentTurnClientId)?.name ?? "?"}
             {turnSecondsLeft != null ? ` • ${turnSecondsLeft}s` : ""}
+            {room?.game ? ` • seed: ${room.game.seed}` : ""}
           </div>
         </div>
 
@@ -694,7 +1251,7 @@ export function App() {
               onClick={() => {
                 send({ type: "game.surrender" });
               }}
-              disabled={!connected}
+              disabled={!connected || isSpectator}
             >
               Surrender
             </button>
@@ -741,265 +1298,310 @@ export function App() {
           </div>
         </div>
 
-        <div className="gw-panel gw-stack">
-          <h3>Controls</h3>
-          <div className="gw-muted" style={{ fontSize: 12 }}>
-            Room mode: <strong>{room?.game?.difficulty ?? "?"}</strong>
+        {isSpectator ? (
+          <div className="gw-panel gw-faint" style={{ fontSize: 12 }}>
+            Spectating: you can watch and chat, but not play this match.
           </div>
+        ) : (
+          <>
+            <div className="gw-panel gw-stack">
+              <h3>Controls</h3>
+              <div className="gw-muted" style={{ fontSize: 12 }}>
+                Room mode: <strong>{room?.game?.difficulty ?? "?"}</strong>
+              </div>
 
-          <label className="gw-field">
-            Mode
-            <select
-              className="gw-select"
-              value={mode}
-              onChange={(e) => {
-                const m = e.target.value as GameMode;
-                setMode(m);
-                send({ type: "game.setMode", mode: m });
-              }}
-              disabled={!connected}
-            >
-              <option value="normal">normal</option>
-              <option value="fst_ode">fst_ode</option>
-              <option value="snd_ode">snd_ode</option>
-            </select>
-          </label>
+              <label className="gw-field">
+                Mode
+                <select
+                  className="gw-select"
+                  value={mode}
+                  onChange={(e) => {
+                    const m = e.target.value as GameMode;
+                    setMode(m);
+                    send({ type: "game.setMode", mode: m });
+                  }}
+                  disabled={!connected || !room?.config.perTurnMode || !isMyTurn}
+                  title={room?.config.perTurnMode ? "Pick the mode for your own shot" : "Set by the room owner in the lobby"}
+                >
+                  <option value="normal">normal</option>
+                  <option value="fst_ode">fst_ode</option>
+                  <option value="snd_ode">snd_ode</option>
+                  <option value="parametric">parametric</option>
+                  <option value="polar">polar</option>
+                </select>
+              </label>
+
+              <label className="gw-field">
+                Angle (radians)
+                <input
+                  className="gw-range"
+                  type="range"
+                  min={-Math.PI / 2}
+                  max={Math.PI / 2}
+                  step={0.01}
+                  value={angle}
+                  onChange={(e) => {
+                    const a = Number(e.target.value);
+                    setAngle(a);
+                    send({ type: "game.setAngle", angle: a });
+                  }}
+                  disabled={!connected}
+                />
+                <div className="gw-faint" style={{ fontSize: 12 }}>
+                  {angle.toFixed(2)}
+                </div>
+              </label>
+
+              <label className="gw-field">
+                Function
+                <input
+                  ref={functionInputRef}
+                  className="gw-input"
+                  value={functionString}
+                  onChange={(e) => {
+                    setFunctionString(e.target.value);
+                    setFunctionError(null);
+                  }}
+                  aria-invalid={!!shownFunctionError}
+                  style={shownFunctionError ? { borderColor: "var(--gw-danger)" } : undefined}
+                  disabled={!connected}
+                />
+                {shownFunctionError ? (
+                  <span style={{ fontSize: 12, color: "var(--gw-danger)" }}>
+                    {shownFunctionError.span ? (
+                      <code style={{ display: "block", whiteSpace: "pre" }}>
+                        {functionString.slice(0, shownFunctionError.span.start)}
+                        <mark>{functionString.slice(shownFunctionError.span.start, shownFunctionError.span.end) || " "}</mark>
+                        {functionString.slice(shownFunctionError.span.end)}
+                      </code>
+                    ) : null}
+                    {shownFunctionError.text}
+                  </span>
+                ) : null}
+              </label>
 
-          <label className="gw-field">
-            Angle (radians)
-            <input
-              className="gw-range"
-              type="range"
-              min={-Math.PI / 2}
-              max={Math.PI / 2}
-              step={0.01}
-              value={angle}
-              onChange={(e) => {
-                const a = Number(e.target.value);
-                setAngle(a);
-                send({ type: "game.setAngle", angle: a });
-              }}
-              disabled={!connected}
-            />
-            <div className="gw-faint" style={{ fontSize: 12 }}>
-              {angle.toFixed(2)}
             </div>
-          </label>
 
-          <label className="gw-field">
-            Function
-            <input className="gw-input" value={functionString} onChange={(e) => setFunctionString(e.target.value)} disabled={!connected} />
-          </label>
-
-        </div>
-
-        {room?.game?.difficulty === "practice" ? (
-          <div className="gw-panel gw-stack">
-            <div className="gw-muted" style={{ fontSize: 12 }}>
-              Hints (practice mode)
-            </div>
-            <div className="gw-row">
-              <button
-                className="gw-btn"
-                onClick={() => {
-                  if (!room?.game || !clientId) return;
-                  const g = room.game;
-                  const me = g.players.find((p) => p.clientId === clientId);
-                  const mySoldier = me?.soldiers?.[me?.currentTurnSoldier ?? 0];
-                  if (!me || !mySoldier) return;
-
-                  setChat((prev) =>
-                    prev.concat({ from: "hint", text: "Requesting AI hint...", ts: Date.now() }),
-                  );
-                  if (debugGemini) {
-                    // eslint-disable-next-line no-console
-                    console.log("[LLM] hint.request sent");
-                  }
+            {room?.game?.difficulty === "practice" ? (
+              <div className="gw-panel gw-stack">
+                <div className="gw-muted" style={{ fontSize: 12 }}>
+                  Hints (practice mode)
+                </div>
+                <div className="gw-row">
+                  <button
+                    className="gw-btn"
+                    onClick={() => {
+                      if (!room?.game || !clientId) return;
+                      const g = room.game;
+                      const me = g.players.find((p) => p.clientId === clientId);
+                      const mySoldier = me?.soldiers?.[me?.currentTurnSoldier ?? 0];
+                      if (!me || !mySoldier) return;
+
+                      setChat((prev) =>
+                        prev.concat({ from: "hint", text: "Requesting AI hint...", ts: Date.now() }),
+                      );
+                      if (debugGemini) {
+                        // eslint-disable-next-line no-console
+                        console.log("[LLM] hint.request sent");
+                      }
 
-                  let target: { x: number; y: number } | null = null;
-                  let best = Number.POSITIVE_INFINITY;
-                  for (const p of g.players) {
-                    if (p.team === me.team) continue;
-                    for (const s of p.soldiers) {
-                      if (!s.alive) continue;
-                      const d = distSq({ x: mySoldier.x, y: mySoldier.y }, { x: s.x, y: s.y });
-                      if (d < best) {
-                        best = d;
-                        target = { x: s.x, y: s.y };
+                      let target: { x: number; y: number } | null = null;
+                      let best = Number.POSITIVE_INFINITY;
+                      for (const p of g.players) {
+                        if (p.team === me.team) continue;
+                        for (const s of p.soldiers) {
+                          if (!s.alive) continue;
+                          const d = distSq({ x: mySoldier.x, y: mySoldier.y }, { x: s.x, y: s.y });
+                          if (d < best) {
+                            best = d;
+                            target = { x: s.x, y: s.y };
+                          }
+                        }
                       }
-                    }
-                  }
-                  if (!target) return;
-
-                  const inverted = me.team === 2;
-                  const dxLocalPixels = inverted ? mySoldier.x - target.x : target.x - mySoldier.x;
-                  const dyLocalGameSign = -(target.y - mySoldier.y);
-
-                  const slope = dxLocalPixels !== 0 ? dyLocalGameSign / dxLocalPixels : 0;
-                  const m = Math.round(clamp(slope, -6, 6) * 10) / 10;
-
-                  setFunctionString(`${m}*x`);
-                  setChat((prev) =>
-                    prev.concat({
-                      from: "hint",
-                      text: `Manual hint (degree 1): use ${m}*x as a starting slope.`,
-                      ts: Date.now(),
-                    }),
-                  );
-                }}
-                disabled={!connected || (inGame && !isMyTurn)}
-              >
-                Degree 1
-              </button>
+                      if (!target) return;
+
+                      const inverted = me.team === 2;
+                      const dxLocalPixels = inverted ? mySoldier.x - target.x : target.x - mySoldier.x;
+                      const dyLocalGameSign = -(target.y - mySoldier.y);
+
+                      const slope = dxLocalPixels !== 0 ? dyLocalGameSign / dxLocalPixels : 0;
+                      const m = Math.round(clamp(slope, -6, 6) * 10) / 10;
+
+                      setFunctionString(forMode(mode, `${m}*x`));
+                      setChat((prev) =>
+                        prev.concat({
+                          from: "hint",
+                          text: `Manual hint (degree 1): use ${m}*x as a starting slope.`,
+                          ts: Date.now(),
+                        }),
+                      );
+                    }}
+                    disabled={!connected || (inGame && !isMyTurn) || mode === "polar"}
+                  >
+                    Degree 1
+                  </button>
 
-              <button
-                className="gw-btn"
-                onClick={() => {
-                  if (!room?.game || !clientId) return;
-                  const g = room.game;
-                  const me = g.players.find((p) => p.clientId === clientId);
-                  const mySoldier = me?.soldiers?.[me?.currentTurnSoldier ?? 0];
-                  if (!me || !mySoldier) return;
-
-                  let target: { x: number; y: number } | null = null;
-                  let best = Number.POSITIVE_INFINITY;
-                  for (const p of g.players) {
-                    if (p.team === me.team) continue;
-                    for (const s of p.soldiers) {
-                      if (!s.alive) continue;
-                      const d = distSq({ x: mySoldier.x, y: mySoldier.y }, { x: s.x, y: s.y });
-                      if (d < best) {
-                        best = d;
-                        target = { x: s.x, y: s.y };
+                  <button
+                    className="gw-btn"
+                    onClick={() => {
+                      if (!room?.game || !clientId) return;
+                      const g = room.game;
+                      const me = g.players.find((p) => p.clientId === clientId);
+                      const mySoldier = me?.soldiers?.[me?.currentTurnSoldier ?? 0];
+                      if (!me || !mySoldier) return;
+
+                      let target: { x: number; y: number } | null = null;
+                      let best = Number.POSITIVE_INFINITY;
+                      for (const p of g.players) {
+                        if (p.team === me.team) continue;
+                        for (const s of p.soldiers) {
+                          if (!s.alive) continue;
+                          const d = distSq({ x: mySoldier.x, y: mySoldier.y }, { x: s.x, y: s.y });
+                          if (d < best) {
+                            best = d;
+                            target = { x: s.x, y: s.y };
+                          }
+                        }
                       }
-                    }
-                  }
-                  if (!target) return;
-
-                  const inverted = me.team === 2;
-                  const dxLocalPixels = inverted ? mySoldier.x - target.x : target.x - mySoldier.x;
-                  const dyLocalGameSign = -(target.y - mySoldier.y);
-
-                  const slope = dxLocalPixels !== 0 ? dyLocalGameSign / dxLocalPixels : 0;
-                  const m = Math.round(clamp(slope, -6, 6) * 10) / 10;
-                  const a = dyLocalGameSign >= 0 ? 0.02 : -0.02;
-
-                  setFunctionString(`${a}*x^2 + ${m}*x`);
-                  setChat((prev) =>
-                    prev.concat({
-                      from: "hint",
-                      text: `Manual hint (degree 2): try ${a}*x^2 + ${m}*x (adds curvature).`,
-                      ts: Date.now(),
-                    }),
-                  );
-                }}
-                disabled={!connected || (inGame && !isMyTurn)}
-              >
-                Degree 2
-              </button>
+                      if (!target) return;
+
+                      const inverted = me.team === 2;
+                      const dxLocalPixels = inverted ? mySoldier.x - target.x : target.x - mySoldier.x;
+                      const dyLocalGameSign = -(target.y - mySoldier.y);
+
+                      const slope = dxLocalPixels !== 0 ? dyLocalGameSign / dxLocalPixels : 0;
+                      const m = Math.round(clamp(slope, -6, 6) * 10) / 10;
+                      const a = dyLocalGameSign >= 0 ? 0.02 : -0.02;
+
+                      setFunctionString(forMode(mode, `${a}*x^2 + ${m}*x`));
+                      setChat((prev) =>
+                        prev.concat({
+                          from: "hint",
+                          text: `Manual hint (degree 2): try ${a}*x^2 + ${m}*x (adds curvature).`,
+                          ts: Date.now(),
+                        }),
+                      );
+                    }}
+                    disabled={!connected || (inGame && !isMyTurn) || mode === "polar"}
+                  >
+                    Degree 2
+                  </button>
 
-              <button
-                className="gw-btn"
-                onClick={() => {
-                  if (!room?.game || !clientId) return;
-                  const g = room.game;
-                  const me = g.players.find((p) => p.clientId === clientId);
-                  const mySoldier = me?.soldiers?.[me?.currentTurnSoldier ?? 0];
-                  if (!me || !mySoldier) return;
-
-                  let target: { x: number; y: number } | null = null;
-                  let best = Number.POSITIVE_INFINITY;
-                  for (const p of g.players) {
-                    if (p.team === me.team) continue;
-                    for (const s of p.soldiers) {
-                      if (!s.alive) continue;
-                      const d = distSq({ x: mySoldier.x, y: mySoldier.y }, { x: s.x, y: s.y });
-                      if (d < best) {
-                        best = d;
-                        target = { x: s.x, y: s.y };
+                  <button
+                    className="gw-btn"
+                    onClick={() => {
+                      if (!room?.game || !clientId) return;
+                      const g = room.game;
+                      const me = g.players.find((p) => p.clientId === clientId);
+                      const mySoldier = me?.soldiers?.[me?.currentTurnSoldier ?? 0];
+                      if (!me || !mySoldier) return;
+
+                      let target: { x: number; y: number } | null = null;
+                      let best = Number.POSITIVE_INFINITY;
+                      for (const p of g.players) {
+                        if (p.team === me.team) continue;
+                        for (const s of p.soldiers) {
+                          if (!s.alive) continue;
+                          const d = distSq({ x: mySoldier.x, y: mySoldier.y }, { x: s.x, y: s.y });
+                          if (d < best) {
+                            best = d;
+                            target = { x: s.x, y: s.y };
+                          }
+                        }
                       }
-                    }
-                  }
-                  if (!target) return;
-
-                  const inverted = me.team === 2;
-                  const dxLocalPixels = inverted ? mySoldier.x - target.x : target.x - mySoldier.x;
-                  const dyLocalGameSign = -(target.y - mySoldier.y);
-
-                  const slope = dxLocalPixels !== 0 ? dyLocalGameSign / dxLocalPixels : 0;
-                  const m = Math.round(clamp(slope, -6, 6) * 10) / 10;
-                  const a2 = dyLocalGameSign >= 0 ? 0.01 : -0.01;
-                  const a4 = dyLocalGameSign >= 0 ? 0.0002 : -0.0002;
-
-                  setFunctionString(`${a4}*x^4 + ${a2}*x^2 + ${m}*x`);
-                  setChat((prev) =>
-                    prev.concat({
-                      from: "hint",
-                      text: `Manual hint (degree 4): try ${a4}*x^4 + ${a2}*x^2 + ${m}*x (stronger curvature).`,
-                      ts: Date.now(),
-                    }),
-                  );
-                }}
-                disabled={!connected || (inGame && !isMyTurn)}
-              >
-                Degree 4
-              </button>
+                      if (!target) return;
+
+                      const inverted = me.team === 2;
+                      const dxLocalPixels = inverted ? mySoldier.x - target.x : target.x - mySoldier.x;
+                      const dyLocalGameSign = -(target.y - mySoldier.y);
+
+                      const slope = dxLocalPixels !== 0 ? dyLocalGameSign / dxLocalPixels : 0;
+                      const m = Math.round(clamp(slope, -6, 6) * 10) / 10;
+                      const a2 = dyLocalGameSign >= 0 ? 0.01 : -0.01;
+                      const a4 = dyLocalGameSign >= 0 ? 0.0002 : -0.0002;
+
+                      setFunctionString(forMode(mode, `${a4}*x^4 + ${a2}*x^2 + ${m}*x`));
+                      setChat((prev) =>
+                        prev.concat({
+                          from: "hint",
+                          text: `Manual hint (degree 4): try ${a4}*x^4 + ${a2}*x^2 + ${m}*x (stronger curvature).`,
+                          ts: Date.now(),
+                        }),
+                      );
+                    }}
+                    disabled={!connected || (inGame && !isMyTurn) || mode === "polar"}
+                  >
+                    Degree 4
+                  </button>
 
-              <button
-                className="gw-btn gw-btnPrimary"
-                onClick={() => {
-                  if (!room?.game || !clientId) return;
-                  const g = room.game;
-                  const me = g.players.find((p) => p.clientId === clientId);
-                  const mySoldier = me?.soldiers?.[me?.currentTurnSoldier ?? 0];
-                  if (!me || !mySoldier) return;
-
-                  // Pick nearest enemy alive soldier as target.
-                  let target: { x: number; y: number } | null = null;
-                  let best = Number.POSITIVE_INFINITY;
-                  for (const p of g.players) {
-                    if (p.team === me.team) continue;
-                    for (const s of p.soldiers) {
-                      if (!s.alive) continue;
-                      const d = distSq({ x: mySoldier.x, y: mySoldier.y }, { x: s.x, y: s.y });
-                      if (d < best) {
-                        best = d;
-                        target = { x: s.x, y: s.y };
+                  <button
+                    className="gw-btn gw-btnPrimary"
+                    onClick={() => {
+                      if (!room?.game || !clientId) return;
+                      const g = room.game;
+                      const me = g.players.find((p) => p.clientId === clientId);
+                      const mySoldier = me?.soldiers?.[me?.currentTurnSoldier ?? 0];
+                      if (!me || !mySoldier) return;
+
+                      // Pick nearest enemy alive soldier as target.
+                      let target: { x: number; y: number } | null = null;
+                      let best = Number.POSITIVE_INFINITY;
+                      for (const p of g.players) {
+                        if (p.team === me.team) continue;
+                        for (const s of p.soldiers) {
+                          if (!s.alive) continue;
+                          const d = distSq({ x: mySoldier.x, y: mySoldier.y }, { x: s.x, y: s.y });
+                          if (d < best) {
+                            best = d;
+                            target = { x: s.x, y: s.y };
+                          }
+                        }
                       }
-                    }
-                  }
-                  if (!target) return;
-
-                  send({
-                    type: "hint.request",
-                    payload: { shooter: { x: mySoldier.x, y: mySoldier.y }, target, debug: debugGemini },
-                  });
-                }}
-                disabled={!connected || (inGame && !isMyTurn)}
-              >
-                Call LLM chat bot
-              </button>
-            </div>
+                      if (!target) return;
+
+                      send({
+                        type: "hint.request",
+                        payload: { shooter: { x: mySoldier.x, y: mySoldier.y }, target, debug: debugGemini },
+                      });
+                    }}
+                    disabled={!connected || (inGame && !isMyTurn) || hintsLeft === 0 || hintCooldownTurns > 0}
+                  >
+                    Call LLM chat bot
+                  </button>
+                </div>
+
+                {hintsLeft != null || hintCooldownTurns > 0 ? (
+                  <div className="gw-faint" style={{ fontSize: 12 }}>
+                    {hintsLeft != null ? `Hints left: ${hintsLeft}/${room.config.hintsPerMatch}` : ""}
+                    {hintsLeft != null && hintCooldownTurns > 0 ? " • " : ""}
+                    {hintCooldownTurns > 0
+                      ? `next hint ${hintCooldownTurns === 1 ? "on your next turn" : `in ${hintCooldownTurns} of your turns`}`
+                      : ""}
+                    {room.config.hintKillPenalty ? ` • hinted kills score ${formatScore(1 - room.config.hintKillPenalty)}` : ""}
+                  </div>
+                ) : null}
 
-            {hintThinking ? (
-              <div className="gw-faint" style={{ fontSize: 12, marginTop: 6 }}>
-                AI thinking: {hintThinking.attempt}/{hintThinking.maxAttempts}
+                {hintThinking ? (
+                  <div className="gw-faint" style={{ fontSize: 12, marginTop: 6 }}>
+                    AI thinking: {hintThinking.attempt}/{hintThinking.maxAttempts}
+                  </div>
+                ) : null}
               </div>
-            ) : null}
-          </div>
-        ) : (
-          <div className="gw-panel gw-faint" style={{ fontSize: 12 }}>
-            Hard mode: hints disabled.
-          </div>
-        )}
+            ) : (
+              <div className="gw-panel gw-faint" style={{ fontSize: 12 }}>
+                Hard mode: hints disabled.
+              </div>
+            )}
 
-        <button
-          className="gw-btn gw-btnPrimary"
-          onClick={() => send({ type: "game.fire", functionString })}
-          disabled={!connected || (inGame && !isMyTurn)}
-        >
-          Fire
-        </button>
+            <button
+              className="gw-btn gw-btnPrimary"
+              onClick={() => send({ type: "game.fire", functionString })}
+              disabled={!connected || (inGame && !isMyTurn)}
+            >
+              Fire
+            </button>
+          </>
+        )}
       </div>
     </div>
   );
@@ -1008,7 +1610,33 @@ export function App() {
     <div className="gw-app">
       <h1>Graphwar Web</h1>
       {topBar}
-      <div className="gw-content">{inPostGame ? postGameScreen : inGame ? gameScreen : lobbyScreen}</div>
+      <div className="gw-content">
+        {replay ? (
+          <ReplayViewer replay={replay} onClose={() => setReplay(null)} />
+        ) : mapEditorOpen ? (
+          <MapEditor
+            initialMap={room?.customMap ?? emptyCustomMap()}
+            canUseInRoom={connected && !!room && room.gameState === "lobby" && clientId === room.ownerClientId}
+            onUseInRoom={(map) => {
+              send({ type: "room.setMap", map });
+              setMapEditorOpen(false);
+            }}
+            canSave={connected && savedMapsAvailable}
+            onSave={(map) => {
+              setMapsNotice(null);
+              send({ type: "maps.save", map });
+            }}
+            notice={mapsNotice}
+            onClose={() => setMapEditorOpen(false)}
+          />
+        ) : inPostGame ? (
+          postGameScreen
+        ) : inGame ? (
+          gameScreen
+        ) : (
+          lobbyScreen
+        )}
+      </div>
     </div>
   );
 }
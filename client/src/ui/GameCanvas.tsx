@@ -1,5 +1,13 @@
 import React, { useEffect, useMemo, useRef, useState } from "react";
-import { GAME_CONSTANTS, type RoomState, type ShotResult } from "@graphwar/shared";
+import {
+  GAME_CONSTANTS,
+  bitmapSolidAt,
+  decodeTerrainBitmap,
+  type GameMode,
+  type RoomState,
+  type ShotResult,
+  type TerrainBitmap,
+} from "@graphwar/shared";
 
 const COLORS = {
   // Museum Display (dark)
@@ -48,6 +56,52 @@ function drawOutlinedText(
 
 const TEXT_OUTLINE_DARK = "rgba(0,0,0,0.75)";
 
+// What the shooter's local forward / up axes mean in each mode.
+const AXIS_LABELS: Record<GameMode, { forward: string; up: string }> = {
+  normal: { forward: "x", up: "y" },
+  fst_ode: { forward: "x", up: "y" },
+  snd_ode: { forward: "x", up: "y" },
+  parametric: { forward: "x(t)", up: "y(t)" },
+  polar: { forward: "θ = 0", up: "θ = π/2" },
+};
+
+// Local axes at the shooter; team 2 is mirrored, so "forward" points left for them.
+function drawShooterAxes(ctx: CanvasRenderingContext2D, x: number, y: number, inverted: boolean, mode: GameMode) {
+  const dir = inverted ? -1 : 1;
+  const len = 56;
+  const labels = AXIS_LABELS[mode];
+  const textOpts = { font: "11px system-ui", fill: COLORS.text, outline: TEXT_OUTLINE_DARK, outlineWidth: 3 };
+
+  ctx.save();
+  ctx.strokeStyle = "rgba(242, 239, 229, 0.45)";
+  ctx.lineWidth = 1;
+  ctx.setLineDash([4, 4]);
+  ctx.beginPath();
+  ctx.moveTo(x, y);
+  ctx.lineTo(x + dir * len, y);
+  ctx.moveTo(x, y);
+  ctx.lineTo(x, y - len);
+  ctx.stroke();
+
+  if (mode === "polar") {
+    // θ grows from the forward axis towards "up".
+    ctx.setLineDash([]);
+    ctx.beginPath();
+    if (inverted) ctx.arc(x, y, 22, Math.PI, -Math.PI / 2);
+    else ctx.arc(x, y, 22, 0, -Math.PI / 2, true);
+    ctx.stroke();
+    drawOutlinedText(ctx, "θ", x + dir * 18 - 3, y - 18, textOpts);
+  }
+  ctx.restore();
+
+  ctx.save();
+  ctx.textAlign = inverted ? "right" : "left";
+  drawOutlinedText(ctx, labels.forward, x + dir * (len + 4), y + 4, textOpts);
+  ctx.textAlign = "center";
+  drawOutlinedText(ctx, labels.up, x, y - len - 6, textOpts);
+  ctx.restore();
+}
+
 function hash2i(x: number, y: number): number {
   // Deterministic 32-bit hash (fast, stable for procedural textures)
   let h = x | 0;
@@ -183,22 +237,22 @@ function drawMoonTexture(ctx: CanvasRenderingContext2D, cx: number, cy: number,
   ctx.restore();
 }
 
-function hashTerrainCircles(circles: Array<{ x: number; y: number; r: number }>): number {
-  // Stable-ish hash for terrain geometry. Rounded to reduce churn.
-  let h = 2166136261;
-  for (let i = 0; i < circles.length; i++) {
-    const c = circles[i]!;
-    const x = (c.x * 10) | 0;
-    const y = (c.y * 10) | 0;
-    const r = (c.r * 10) | 0;
-    h ^= x;
-    h = Math.imul(h, 16777619);
-    h ^= y;
-    h = Math.imul(h, 16777619);
-    h ^= r;
-    h = Math.imul(h, 16777619);
+// Canvas whose pixels are opaque exactly where the terrain bitmap is solid.
+function bitmapMask(bitmap: TerrainBitmap): HTMLCanvasElement {
+  const mask = document.createElement("canvas");
+  mask.width = bitmap.width;
+  mask.height = bitmap.height;
+  const mctx = mask.getContext("2d");
+  if (!mctx) return mask;
+
+  const img = mctx.createImageData(bitmap.width, bitmap.height);
+  for (let y = 0; y < bitmap.height; y++) {
+    for (let x = 0; x < bitmap.width; x++) {
+      if (bitmapSolidAt(bitmap, x, y)) img.data[(y * bitmap.width + x) * 4 + 3] = 255;
+    }
   }
-  return h >>> 0;
+  mctx.putImageData(img, 0, 0);
+  return mask;
 }
 
 function hashToUnit(n: string): number {
@@ -223,21 +277,37 @@ function loadImage(src: string): Promise<HTMLImageElement> {
   });
 }
 
+// Where a pointer event lands on the plane, given the letterboxing the renderer uses.
+function eventToPlane(canvas: HTMLCanvasElement, e: React.PointerEvent): { x: number; y: number } {
+  const rect = canvas.getBoundingClientRect();
+  const planeW = GAME_CONSTANTS.PLANE_LENGTH;
+  const planeH = GAME_CONSTANTS.PLANE_HEIGHT;
+  const scale = Math.min(rect.width / planeW, rect.height / planeH);
+  const offX = (rect.width - planeW * scale) / 2;
+  const offY = (rect.height - planeH * scale) / 2;
+  return { x: (e.clientX - rect.left - offX) / scale, y: (e.clientY - rect.top - offY) / scale };
+}
+
 export function GameCanvas({
   room,
   previewShot,
   showCoordinates,
+  drawOverlay,
+  onPlanePointer,
 }: {
   room: RoomState | null;
   previewShot?: ShotResult | null;
   showCoordinates?: boolean;
+  // Map editor hooks: extra drawing on top (in plane coordinates), and pointer events mapped onto the plane.
+  drawOverlay?: (ctx: CanvasRenderingContext2D) => void;
+  onPlanePointer?: (kind: "down" | "move" | "up", p: { x: number; y: number }) => void;
 }) {
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
   const [animT, setAnimT] = useState(0);
   const [cssSize, setCssSize] = useState<{ w: number; h: number }>(() => ({ w: 0, h: 0 }));
 
   const terrainCacheRef = useRef<{
-    key: number;
+    key: string;
     w: number;
     h: number;
     canvas: HTMLCanvasElement;
@@ -435,10 +505,11 @@ export function GameCanvas({
     const lastShot = g.lastShot;
     const nowMs = Date.now();
 
-    // Terrain is expensive to draw; cache circles into an offscreen canvas.
+    // Terrain is expensive to draw; cache circles, cut to the carved bitmap, into an offscreen canvas.
     {
       const circles = g.terrain.circles;
-      const terrainKey = hashTerrainCircles(circles);
+      // The encoded bitmap changes with every carve, so it doubles as the cache key.
+      const terrainKey = g.terrain.bitmap;
       const cache = terrainCacheRef.current;
       const targetW = Math.max(1, Math.round(planeW));
       const targetH = Math.max(1, Math.round(planeH));
@@ -450,7 +521,9 @@ export function GameCanvas({
         const tctx = off.getContext("2d");
 
         if (tctx) {
-          tctx.clearRect(0, 0, targetW, targetH);
+          // Plain stone underneath, for terrain that didn't come from circles (hills, maze blocks, ...).
+          tctx.fillStyle = "#a99c85";
+          tctx.fillRect(0, 0, targetW, targetH);
           for (const c of circles) {
             // Lunar stone base (keep it "moon" rather than metallic gold)
             const grad = tctx.createRadialGradient(c.x - c.r * 0.3, c.y - c.r * 0.3, 0, c.x, c.y, c.r);
@@ -468,6 +541,11 @@ export function GameCanvas({
             tctx.lineWidth = 2;
             tctx.stroke();
           }
+
+          // Keep only what is still solid: explosions are already carved out of the bitmap.
+          tctx.globalCompositeOperation = "destination-in";
+          tctx.drawImage(bitmapMask(decodeTerrainBitmap(g.terrain.bitmap)), 0, 0);
+          tctx.globalCompositeOperation = "source-over";
         }
 
         terrainCacheRef.current = { key: terrainKey, w: targetW, h: targetH, canvas: off };
@@ -479,7 +557,8 @@ export function GameCanvas({
       }
     }
 
-    const holesToDraw = g.terrain.holes.slice();
+    // The server carves the bitmap when the shot lands; until that arrives, show the pending crater.
+    const holesToDraw: Array<{ x: number; y: number; r: number }> = [];
     if (lastShot && g.phase === "animating_shot" && lastShot.path.length > 0 && lastShot.functionVelocity > 0) {
       const drawDurationMs = Math.floor((lastShot.path.length * 1000) / lastShot.functionVelocity);
       const explodeAt = lastShot.startedAtMs + drawDurationMs;
@@ -564,9 +643,13 @@ export function GameCanvas({
           }
         }
 
+        // With several soldiers each, number them and dim the ones that aren't up next.
+        const isActive = i === p.currentTurnSoldier;
         ctx.fillStyle = COLORS.text;
         ctx.font = "12px system-ui";
-        ctx.fillText(p.name, s.x + 10, s.y + 4);
+        ctx.globalAlpha = p.soldiers.length > 1 && !isActive ? 0.6 : 1;
+        ctx.fillText(p.soldiers.length > 1 ? `${p.name} #${i + 1}` : p.name, s.x + 10, s.y + 4);
+        ctx.globalAlpha = 1;
 
         if (showCoordinates) {
           ctx.fillStyle = "rgba(229,231,235,0.85)";
@@ -576,6 +659,12 @@ export function GameCanvas({
       }
     }
 
+    if (showCoordinates && g.phase === "playing") {
+      const shooter = g.players.find((p) => p.clientId === g.currentTurnClientId);
+      const s = shooter?.soldiers[shooter.currentTurnSoldier];
+      if (shooter && s?.alive) drawShooterAxes(ctx, s.x, s.y, shooter.team === 2, g.mode);
+    }
+
     if (previewShot?.path?.length && g.phase !== "animating_shot") {
       ctx.save();
 
@@ -694,8 +783,26 @@ export function GameCanvas({
       }
     }
 
+    drawOverlay?.(ctx);
+
     ctx.restore();
-  }, [room, points, animT, previewShot, cssSize]);
+  }, [room, points, animT, previewShot, cssSize, drawOverlay]);
 
-  return <canvas ref={canvasRef} style={{ width: "100%", height: "100%", display: "block" }} />;
+  const pointer = (kind: "down" | "move" | "up") =>
+    onPlanePointer
+      ? (e: React.PointerEvent<HTMLCanvasElement>) => {
+          if (kind === "down") e.currentTarget.setPointerCapture(e.pointerId);
+          onPlanePointer(kind, eventToPlane(e.currentTarget, e));
+        }
+      : undefined;
+
+  return (
+    <canvas
+      ref={canvasRef}
+      style={{ width: "100%", height: "100%", display: "block", touchAction: onPlanePointer ? "none" : undefined }}
+      onPointerDown={pointer("down")}
+      onPointerMove={pointer("move")}
+      onPointerUp={pointer("up")}
+    />
+  );
 }
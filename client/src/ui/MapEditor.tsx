@@ -0,0 +1,323 @@
+import React, { useCallback, useMemo, useRef, useState } from "react";
+import {
+  CUSTOM_MAP_LIMITS,
+  GAME_CONSTANTS,
+  clipSpawnZone,
+  exportCustomMap,
+  importCustomMap,
+  serializeTerrain,
+  spawnZoneContains,
+  terrainFromCircles,
+  type CustomMap,
+  type GameTeam,
+  type RoomState,
+  type SpawnZone,
+  type TerrainCircle,
+} from "@graphwar/shared";
+import { GameCanvas } from "./GameCanvas";
+
+type Tool = "circle" | "zone" | "spawn" | "erase";
+
+type Drag =
+  | { kind: "circle"; circle: TerrainCircle }
+  | { kind: "zone"; zone: SpawnZone };
+
+const ZONE_COLORS: Record<GameTeam, { fill: string; stroke: string }> = {
+  1: { fill: "rgba(43, 195, 180, 0.14)", stroke: "rgba(43, 195, 180, 0.75)" },
+  2: { fill: "rgba(197, 160, 91, 0.14)", stroke: "rgba(197, 160, 91, 0.75)" },
+};
+
+// Clicks this close to a fixed spawn erase it rather than whatever is underneath.
+const SPAWN_PICK_RADIUS = GAME_CONSTANTS.SOLDIER_SELECTION_RADIUS;
+
+const MIN_CIRCLE_RADIUS = 3;
+
+function insidePlane(p: { x: number; y: number }): boolean {
+  return p.x >= 0 && p.y >= 0 && p.x < GAME_CONSTANTS.PLANE_LENGTH && p.y < GAME_CONSTANTS.PLANE_HEIGHT;
+}
+
+function fileNameFor(map: CustomMap): string {
+  const slug = map.name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "") || "map";
+  return `${slug}.graphwar-map.json`;
+}
+
+export function MapEditor({
+  initialMap,
+  canUseInRoom,
+  onUseInRoom,
+  canSave,
+  onSave,
+  notice,
+  onClose,
+}: {
+  initialMap: CustomMap;
+  // Only the owner of a room still in its lobby can load a map into it.
+  canUseInRoom: boolean;
+  onUseInRoom: (map: CustomMap) => void;
+  // Saving needs the server's database; maps are stored under the player's name.
+  canSave: boolean;
+  onSave: (map: CustomMap) => void;
+  notice: string | null;
+  onClose: () => void;
+}) {
+  const [map, setMap] = useState<CustomMap>(initialMap);
+  const [tool, setTool] = useState<Tool>("circle");
+  const [team, setTeam] = useState<GameTeam>(1);
+  const [drag, setDrag] = useState<Drag | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  const onPlanePointer = useCallback(
+    (kind: "down" | "move" | "up", p: { x: number; y: number }) => {
+      if (kind === "down") {
+        if (!insidePlane(p)) return;
+        if (tool === "circle") {
+          if (map.circles.length >= CUSTOM_MAP_LIMITS.MAX_CIRCLES) return;
+          setDrag({ kind: "circle", circle: { x: Math.round(p.x), y: Math.round(p.y), r: 0 } });
+        } else if (tool === "zone") {
+          if (map.spawnZones.length >= CUSTOM_MAP_LIMITS.MAX_SPAWN_ZONES) return;
+          setDrag({ kind: "zone", zone: { team, x: Math.round(p.x), y: Math.round(p.y), w: 0, h: 0 } });
+        } else if (tool === "spawn") {
+          if (map.fixedSpawns.length >= CUSTOM_MAP_LIMITS.MAX_FIXED_SPAWNS) return;
+          setMap((m) => ({ ...m, fixedSpawns: [...m.fixedSpawns, { team, x: Math.round(p.x), y: Math.round(p.y) }] }));
+        } else {
+          setMap((m) => eraseAt(m, p));
+        }
+        return;
+      }
+
+      if (!drag) return;
+      if (drag.kind === "circle") {
+        const c = drag.circle;
+        const r = Math.min(CUSTOM_MAP_LIMITS.MAX_CIRCLE_RADIUS, Math.round(Math.hypot(p.x - c.x, p.y - c.y)));
+        if (kind === "move") {
+          setDrag({ kind: "circle", circle: { ...c, r } });
+        } else {
+          if (r >= MIN_CIRCLE_RADIUS) setMap((m) => ({ ...m, circles: [...m.circles, { ...c, r }] }));
+          setDrag(null);
+        }
+      } else {
+        const z = { ...drag.zone, w: Math.round(p.x) - drag.zone.x, h: Math.round(p.y) - drag.zone.y };
+        if (kind === "move") {
+          setDrag({ kind: "zone", zone: z });
+        } else {
+          const clipped = clipSpawnZone(z);
+          if (clipped) setMap((m) => ({ ...m, spawnZones: [...m.spawnZones, clipped] }));
+          setDrag(null);
+        }
+      }
+    },
+    [tool, team, drag, map.circles.length, map.spawnZones.length, map.fixedSpawns.length],
+  );
+
+  const drawOverlay = useCallback(
+    (ctx: CanvasRenderingContext2D) => {
+      const zones = drag?.kind === "zone" ? [...map.spawnZones, drag.zone] : map.spawnZones;
+      ctx.save();
+      ctx.lineWidth = 1.5;
+      ctx.setLineDash([6, 4]);
+      for (const z of zones) {
+        ctx.fillStyle = ZONE_COLORS[z.team].fill;
+        ctx.strokeStyle = ZONE_COLORS[z.team].stroke;
+        ctx.fillRect(z.x, z.y, z.w, z.h);
+        ctx.strokeRect(z.x, z.y, z.w, z.h);
+      }
+      ctx.restore();
+    },
+    [map.spawnZones, drag],
+  );
+
+  // The editor draws with the game renderer: terrain from the circles, fixed spawns as soldiers.
+  const room = useMemo<RoomState>(() => {
+    const circles = drag?.kind === "circle" && drag.circle.r > 0 ? [...map.circles, drag.circle] : map.circles;
+    return {
+      id: "editor",
+      name: `Map editor • ${map.name}`,
+      ownerClientId: "",
+      config: {
+        preset: "1vX",
+        difficulty: "practice",
+        maxPlayers: 2,
+        soldiersPerPlayer: 1,
+        mode: "normal",
+        perTurnMode: false,
+        mapStyle: "moon",
+        hintsPerMatch: 0,
+        hintCooldownTurns: 0,
+        hintKillPenalty: 0,
+      },
+      customMap: null,
+      players: [],
+      spectators: [],
+      gameState: "lobby",
+      game: {
+        mode: "normal",
+        seed: 0,
+        difficulty: "practice",
+        terrain: serializeTerrain(terrainFromCircles(circles)),
+        currentTurnClientId: "",
+        timeTurnStarted: 0,
+        players: ([1, 2] as const).map((t) => ({
+          clientId: `team${t}`,
+          name: `Team ${t}`,
+          team: t,
+          soldiers: map.fixedSpawns.filter((f) => f.team === t).map((f) => ({ x: f.x, y: f.y, angle: 0, alive: true })),
+          currentTurnSoldier: 0,
+        })),
+        phase: "playing",
+      },
+    };
+  }, [map, drag]);
+
+  const exportFile = () => {
+    const blob = new Blob([exportCustomMap(map)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = fileNameFor(map);
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const importFile = async (file: File) => {
+    const result = importCustomMap(await file.text());
+    if (!result.ok) {
+      setImportError(result.message);
+      return;
+    }
+    setImportError(null);
+    setMap(result.map);
+  };
+
+  const teamSummary = (t: GameTeam) => {
+    const fixed = map.fixedSpawns.filter((f) => f.team === t).length;
+    const zones = map.spawnZones.filter((z) => z.team === t).length;
+    if (!fixed && !zones) return `Team ${t}: spawns anywhere on its half`;
+    return `Team ${t}: ${fixed} fixed spawn${fixed === 1 ? "" : "s"}, ${zones} zone${zones === 1 ? "" : "s"}`;
+  };
+
+  return (
+    <div className="gw-gameLayout">
+      <div className="gw-gameMain">
+        <div className="gw-panel gw-row" style={{ justifyContent: "space-between", alignItems: "baseline" }}>
+          <h2>Map editor</h2>
+          <div className="gw-muted" style={{ fontSize: 12 }}>
+            circles: {map.circles.length}/{CUSTOM_MAP_LIMITS.MAX_CIRCLES} • zones: {map.spawnZones.length}/
+            {CUSTOM_MAP_LIMITS.MAX_SPAWN_ZONES} • fixed spawns: {map.fixedSpawns.length}/{CUSTOM_MAP_LIMITS.MAX_FIXED_SPAWNS}
+          </div>
+        </div>
+
+        <div className="gw-canvasWrap">
+          <GameCanvas room={room} drawOverlay={drawOverlay} onPlanePointer={onPlanePointer} />
+        </div>
+      </div>
+
+      <div className="gw-gameSide">
+        <div className="gw-panel gw-stack">
+          <label className="gw-field">
+            name
+            <input
+              className="gw-input"
+              value={map.name}
+              maxLength={32}
+              onChange={(e) => setMap((m) => ({ ...m, name: e.target.value }))}
+            />
+          </label>
+          <div className="gw-row">
+            <label className="gw-field">
+              tool
+              <select className="gw-select" value={tool} onChange={(e) => setTool(e.target.value as Tool)}>
+                <option value="circle">circle (drag radius)</option>
+                <option value="zone">spawn zone (drag box)</option>
+                <option value="spawn">fixed spawn (click)</option>
+                <option value="erase">erase (click)</option>
+              </select>
+            </label>
+            <label className="gw-field">
+              team
+              <select
+                className="gw-select"
+                value={team}
+                onChange={(e) => setTeam(Number(e.target.value) as GameTeam)}
+                disabled={tool === "circle" || tool === "erase"}
+              >
+                <option value={1}>team 1 (left)</option>
+                <option value={2}>team 2 (right)</option>
+              </select>
+            </label>
+          </div>
+          <div className="gw-muted" style={{ fontSize: 12, lineHeight: 1.6 }}>
+            <div>{teamSummary(1)}</div>
+            <div>{teamSummary(2)}</div>
+            <div>Fixed spawns are used first, in order; extra soldiers go to the team's zones.</div>
+          </div>
+          <div className="gw-row">
+            <button
+              className="gw-btn"
+              onClick={() => setMap((m) => ({ ...m, circles: [], spawnZones: [], fixedSpawns: [] }))}
+            >
+              Clear
+            </button>
+            <button className="gw-btn" onClick={exportFile} disabled={!map.name.trim()}>
+              Export
+            </button>
+            <button className="gw-btn" onClick={() => fileInputRef.current?.click()}>
+              Import
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,application/json"
+              style={{ display: "none" }}
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = "";
+                if (file) void importFile(file);
+              }}
+            />
+          </div>
+          {importError ? <div style={{ fontSize: 12, color: "var(--gw-danger)" }}>{importError}</div> : null}
+          <button
+            className="gw-btn"
+            onClick={() => onSave({ ...map, name: map.name.trim() })}
+            disabled={!canSave || !map.name.trim()}
+            title={canSave ? "Save under your player name; saving again with the same name replaces it" : "Saved maps need the server database"}
+          >
+            Save to server
+          </button>
+          {notice ? <div className="gw-muted" style={{ fontSize: 12 }}>{notice}</div> : null}
+          <button
+            className="gw-btn gw-btnPrimary"
+            onClick={() => onUseInRoom({ ...map, name: map.name.trim() })}
+            disabled={!canUseInRoom || !map.name.trim()}
+            title={canUseInRoom ? "Load this map into your room" : "Only the room owner can load a map, in the lobby"}
+          >
+            Use in room
+          </button>
+          <button className="gw-btn" onClick={onClose}>
+            Close editor
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function lastIndexWhere<T>(items: T[], pred: (item: T) => boolean): number {
+  for (let i = items.length - 1; i >= 0; i--) if (pred(items[i]!)) return i;
+  return -1;
+}
+
+// Removes the topmost thing under `p`: fixed spawns, then circles, then zones (latest first).
+function eraseAt(map: CustomMap, p: { x: number; y: number }): CustomMap {
+  const spawnIdx = lastIndexWhere(map.fixedSpawns, (f) => Math.hypot(f.x - p.x, f.y - p.y) <= SPAWN_PICK_RADIUS);
+  if (spawnIdx >= 0) return { ...map, fixedSpawns: map.fixedSpawns.filter((_, i) => i !== spawnIdx) };
+
+  const circleIdx = lastIndexWhere(map.circles, (c) => Math.hypot(c.x - p.x, c.y - p.y) <= c.r);
+  if (circleIdx >= 0) return { ...map, circles: map.circles.filter((_, i) => i !== circleIdx) };
+
+  const zoneIdx = lastIndexWhere(map.spawnZones, (z) => spawnZoneContains(z, p));
+  if (zoneIdx >= 0) return { ...map, spawnZones: map.spawnZones.filter((_, i) => i !== zoneIdx) };
+
+  return map;
+}
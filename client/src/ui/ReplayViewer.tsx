@@ -0,0 +1,133 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { GAME_CONSTANTS, serializeTerrain, simulateReplay, type MatchReplay, type RoomState } from "@graphwar/shared";
+import { GameCanvas } from "./GameCanvas";
+
+export function ReplayViewer({ replay, onClose }: { replay: MatchReplay; onClose: () => void }) {
+  // Re-simulate the whole match once; every turn is rebuilt from the recorded inputs only.
+  const turns = useMemo(() => simulateReplay(replay), [replay]);
+
+  const [turnIdx, setTurnIdx] = useState(0);
+  const [playing, setPlaying] = useState(true);
+  const [turnStartedAt, setTurnStartedAt] = useState(() => Date.now());
+
+  const turn = turns[turnIdx];
+
+  useEffect(() => {
+    setTurnStartedAt(Date.now());
+  }, [turnIdx]);
+
+  useEffect(() => {
+    // Auto-advance once the shot (and the usual post-explosion pause) has played out.
+    if (!playing || !turn) return;
+    if (turnIdx >= turns.length - 1) return;
+    const drawDurationMs = Math.floor((turn.shot.path.length * 1000) / GAME_CONSTANTS.FUNCTION_VELOCITY);
+    const t = setTimeout(() => setTurnIdx((i) => Math.min(turns.length - 1, i + 1)), drawDurationMs + GAME_CONSTANTS.NEXT_TURN_DELAY_MS);
+    return () => clearTimeout(t);
+  }, [playing, turn, turnIdx, turns.length, turnStartedAt]);
+
+  const room = useMemo<RoomState | null>(() => {
+    if (!turn) return null;
+    const shooter = turn.players[turn.currentTurnIndex]!;
+    return {
+      id: "replay",
+      name: `Replay • seed ${replay.seed}`,
+      ownerClientId: "",
+      config: {
+        preset: "1vX",
+        difficulty: "practice",
+        maxPlayers: turn.players.length,
+        soldiersPerPlayer: Math.max(1, ...turn.players.map((p) => p.soldiers.length)),
+        mode: turn.event.mode,
+        perTurnMode: false,
+        mapStyle: replay.mapStyle,
+        hintsPerMatch: 0,
+        hintCooldownTurns: 0,
+        hintKillPenalty: 0,
+      },
+      customMap: null,
+      players: [],
+      spectators: [],
+      gameState: "in_game",
+      game: {
+        mode: turn.event.mode,
+        seed: replay.seed,
+        difficulty: "practice",
+        terrain: serializeTerrain(turn.terrain),
+        currentTurnClientId: shooter.clientId,
+        timeTurnStarted: turnStartedAt,
+        players: turn.players,
+        phase: "animating_shot",
+        lastShot: {
+          byClientId: shooter.clientId,
+          functionString: turn.event.functionString,
+          mode: turn.event.mode,
+          fireAngle: turn.shot.fireAngle,
+          startedAtMs: turnStartedAt,
+          functionVelocity: GAME_CONSTANTS.FUNCTION_VELOCITY,
+          explosion: turn.shot.explosion,
+          hits: turn.enemyHits,
+          path: turn.shot.path,
+        },
+      },
+    };
+  }, [turn, turnStartedAt, replay.seed]);
+
+  const shooterName = turn ? turn.players[turn.currentTurnIndex]?.name ?? "?" : "?";
+
+  return (
+    <div className="gw-gameLayout">
+      <div className="gw-gameMain">
+        <div className="gw-panel gw-row" style={{ justifyContent: "space-between", alignItems: "baseline" }}>
+          <h2>Replay</h2>
+          <div className="gw-muted" style={{ fontSize: 12 }}>
+            {turns.length ? `Shot ${turnIdx + 1}/${turns.length}` : "No shots recorded"} • seed: {replay.seed}
+          </div>
+        </div>
+
+        <div className="gw-canvasWrap">
+          <GameCanvas room={room} />
+        </div>
+      </div>
+
+      <div className="gw-gameSide">
+        <div className="gw-panel gw-stack">
+          <h3>Playback</h3>
+          {turn ? (
+            <div className="gw-muted" style={{ fontSize: 12, lineHeight: 1.6 }}>
+              <div>
+                <strong>{shooterName}</strong> ({turn.event.mode})
+              </div>
+              <div>
+                <code>{turn.event.functionString}</code>
+              </div>
+              <div>
+                hits: {turn.enemyHits.length} • angle: {turn.event.angle.toFixed(2)}
+              </div>
+            </div>
+          ) : null}
+          <div className="gw-row">
+            <button className="gw-btn" onClick={() => setTurnIdx((i) => Math.max(0, i - 1))} disabled={turnIdx <= 0}>
+              Prev
+            </button>
+            <button className="gw-btn gw-btnPrimary" onClick={() => setPlaying((v) => !v)} disabled={!turns.length}>
+              {playing ? "Pause" : "Play"}
+            </button>
+            <button
+              className="gw-btn"
+              onClick={() => setTurnIdx((i) => Math.min(turns.length - 1, i + 1))}
+              disabled={turnIdx >= turns.length - 1}
+            >
+              Next
+            </button>
+            <button className="gw-btn" onClick={() => setTurnStartedAt(Date.now())} disabled={!turn}>
+              Replay shot
+            </button>
+          </div>
+          <button className="gw-btn" onClick={onClose}>
+            Close replay
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
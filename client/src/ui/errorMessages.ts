@@ -0,0 +1,45 @@
+import type { ErrorCode, ErrorDetails } from "@graphwar/shared";
+
+// UI text per server error code. The server's `message` is only a fallback for codes missing here,
+// so this table is the one place to translate.
+const ERROR_TEXT: Record<ErrorCode, string | ((d: ErrorDetails) => string)> = {
+  invalid_message: (d) => (d.field ? `Invalid value for "${d.field}".` : "The server could not read that request."),
+  name_required: "Please enter a name.",
+  session_expired: "Your previous session has expired.",
+  not_in_room: "You are not in a room.",
+  room_not_found: "That room no longer exists.",
+  room_full: "That room is full.",
+  already_playing: "You are already playing in this room.",
+  not_room_owner: "Only the room owner can do that.",
+  too_many_players: (d) =>
+    d.maxPlayers != null ? `Too many players for that preset (max ${d.maxPlayers}).` : "Too many players for that preset.",
+  bot_not_found: "That bot is no longer in the room.",
+  spectator_forbidden: "Spectators can't do that.",
+  players_not_ready: "Everyone must be ready before starting.",
+  game_in_progress: "Not possible while a match is running.",
+  game_not_started: "The match hasn't started.",
+  start_failed: "The match could not be started.",
+  mode_locked: "The function mode is fixed for this match.",
+  not_your_turn: "It's not your turn.",
+  shot_in_progress: "Wait for the current shot to finish.",
+  function_required: "Type a function first.",
+  malformed_function: (d) => (d.reason ? `Malformed function: ${d.reason}` : "Malformed function."),
+  hints_disabled: "Hints are disabled in hard mode.",
+  hint_limit_reached: (d) =>
+    d.hintsPerMatch != null ? `You've used all ${d.hintsPerMatch} hints for this match.` : "No hints left this match.",
+  hint_cooldown: (d) =>
+    d.turnsLeft != null
+      ? `Hints are cooling down: ${d.turnsLeft === 1 ? "next one on your next turn" : `next one in ${d.turnsLeft} of your turns`}.`
+      : "Hints are cooling down.",
+  hint_failed: "The hint could not be generated.",
+  stats_unavailable: "Stats are unavailable right now.",
+  maps_unavailable: "Saved maps are unavailable right now.",
+  map_not_found: "That map no longer exists.",
+  not_map_author: "Only the browser that saved this map can delete it.",
+};
+
+export function describeError(code: ErrorCode, details: ErrorDetails = {}, fallback?: string): string {
+  const entry = ERROR_TEXT[code];
+  if (entry === undefined) return fallback ?? code;
+  return typeof entry === "function" ? entry(details) : entry;
+}
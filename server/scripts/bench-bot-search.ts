@@ -0,0 +1,88 @@
+import {
+  GAME_MODES,
+  MAP_STYLES,
+  TERRAIN_GENERATORS,
+  BOT_DIFFICULTIES,
+  createSeededRng,
+  placeSoldiers,
+  simulateShot,
+  type BotDifficulty,
+  type GameMode,
+  type MapStyle,
+  type PlayerGameState,
+} from "@graphwar/shared";
+import { BOT_PROFILES, searchBotShot } from "../src/botSearch";
+
+// How often a bot's first shot of a match kills as planned and as fired (after its aim error), per map style and mode, how long it searched,
+// and the longest the event loop was held up meanwhile.
+// Run: npm run bench:bot -w @graphwar/server [-- <matches per cell> <difficulty>]
+
+const MATCHES = Number(process.argv[2] ?? 10);
+const DIFFICULTY = (process.argv[3] ?? "hard") as BotDifficulty;
+if (!BOT_DIFFICULTIES.includes(DIFFICULTY)) throw new Error(`Unknown difficulty: ${DIFFICULTY}`);
+
+function newPlayers(): PlayerGameState[] {
+  return [1, 2].map((team) => ({
+    clientId: `p${team}`,
+    name: `P${team}`,
+    team: team as 1 | 2,
+    soldiers: [0, 1, 2].map(() => ({ x: 0, y: 0, angle: 0, alive: true })),
+    currentTurnSoldier: 0,
+  }));
+}
+
+// Measures the worst lateness of a 1 ms timer while `fn` runs.
+async function withStallProbe<T>(fn: () => Promise<T>): Promise<{ value: T; maxStallMs: number }> {
+  let maxStallMs = 0;
+  let last = performance.now();
+  const probe = setInterval(() => {
+    const t = performance.now();
+    maxStallMs = Math.max(maxStallMs, t - last);
+    last = t;
+  }, 1);
+  try {
+    const value = await fn();
+    maxStallMs = Math.max(maxStallMs, performance.now() - last);
+    return { value, maxStallMs };
+  } finally {
+    clearInterval(probe);
+  }
+}
+
+async function benchCell(style: MapStyle, mode: GameMode) {
+  let planned = 0;
+  let fired = 0;
+  let totalMs = 0;
+  let worstStall = 0;
+  for (let seed = 1; seed <= MATCHES; seed++) {
+    const rng = createSeededRng(seed * 7919);
+    const terrain = TERRAIN_GENERATORS[style].generate(rng);
+    const players = newPlayers();
+    placeSoldiers(terrain, players, rng);
+
+    const t0 = performance.now();
+    const { value: shot, maxStallMs } = await withStallProbe(() =>
+      searchBotShot({ mode, terrain, players, currentTurnIndex: seed % 2 }, BOT_PROFILES[DIFFICULTY]),
+    );
+    totalMs += performance.now() - t0;
+    worstStall = Math.max(worstStall, maxStallMs);
+    if (!shot) continue;
+    if (shot.kills > 0) planned++;
+
+    const currentTurnIndex = seed % 2;
+    const shooter = players[currentTurnIndex]!;
+    if (shot.angle !== undefined) shooter.soldiers[shooter.currentTurnSoldier]!.angle = shot.angle;
+    const res = simulateShot({ mode, functionString: shot.functionString, terrain, players, currentTurnIndex });
+    if (res.hits.some((h) => h.targetClientId !== shooter.clientId)) fired++;
+  }
+  console.log(
+    `${style.padEnd(8)} ${mode.padEnd(10)} planned ${String(planned).padStart(3)} fired ${String(fired).padStart(3)} of ${MATCHES}` +
+      `  avg ${(totalMs / MATCHES).toFixed(0).padStart(5)} ms  worst stall ${worstStall.toFixed(1).padStart(5)} ms`,
+  );
+}
+
+for (const style of MAP_STYLES) {
+  for (const mode of GAME_MODES) {
+    await benchCell(style, mode);
+  }
+}
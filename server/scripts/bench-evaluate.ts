@@ -0,0 +1,91 @@
+import {
+  compilePolish,
+  evaluatePolish,
+  parseToPolishTokens,
+  simulateShot,
+  terrainFromCircles,
+  type PlayerGameState,
+  type TerrainState,
+} from "@graphwar/shared";
+
+// Compares the token-walking interpreter with the compiled closures, on raw evaluation and on whole shots.
+// Run: npm run bench:evaluate -w @graphwar/server
+
+const FUNCTIONS = [
+  "x",
+  "0.3*x^2 - 2x + 1",
+  "sin(3x) * exp(-0.1x) + 2*pi/3",
+  "abs(x - 4)^1.5 / (1 + x^2) + ln(2 + cos(x))",
+  "(2+3)*(4-1)^2 * x + sqrt(16) * sin(pi/6)",
+  "max(sin(x), 0.5) + mod(x, 2) - if(x - 1, tanh(x), floor(x))",
+];
+
+const SAMPLES = 200_000;
+const SHOTS = 200;
+
+// Results are summed and printed so the timed loops can't be optimized away.
+let checksum = 0;
+
+function timeMs(fn: () => void): number {
+  const t0 = performance.now();
+  fn();
+  return performance.now() - t0;
+}
+
+function benchEvaluate(func: string) {
+  const polish = parseToPolishTokens(func);
+  const compiled = compilePolish(polish);
+
+  // Same inputs, same outputs: any mismatch is a bug in the compiler, not noise.
+  let mismatches = 0;
+  for (let i = 0; i < 1000; i++) {
+    const x = i * 0.013 - 5;
+    const a = evaluatePolish(polish, x, 0.5, -0.25);
+    const b = compiled(x, 0.5, -0.25);
+    if (!Object.is(a, b)) mismatches++;
+  }
+
+  let sink = 0;
+  const interpreted = timeMs(() => {
+    for (let i = 0; i < SAMPLES; i++) sink += evaluatePolish(polish, i * 1e-4, 0, 0);
+  });
+  const closures = timeMs(() => {
+    for (let i = 0; i < SAMPLES; i++) sink += compiled(i * 1e-4, 0, 0);
+  });
+
+  checksum += sink;
+
+  console.log(
+    `${func.padEnd(48)} interpret ${interpreted.toFixed(1).padStart(7)}ms  compiled ${closures
+      .toFixed(1)
+      .padStart(7)}ms  x${(interpreted / closures).toFixed(1)}  mismatches ${mismatches}`,
+  );
+  return mismatches;
+}
+
+function benchShots() {
+  const terrain: TerrainState = terrainFromCircles([{ x: 400, y: 120, r: 40 }]);
+  const players: PlayerGameState[] = [
+    { clientId: "a", name: "A", team: 1, soldiers: [{ x: 60, y: 225, angle: 0.3, alive: true }], currentTurnSoldier: 0 },
+    { clientId: "b", name: "B", team: 2, soldiers: [{ x: 700, y: 225, angle: 0, alive: true }], currentTurnSoldier: 0 },
+  ];
+
+  for (const mode of ["normal", "fst_ode", "snd_ode"] as const) {
+    const ms = timeMs(() => {
+      for (let i = 0; i < SHOTS; i++) {
+        simulateShot({ mode, functionString: "0.2*sin(x) - 0.01x^2", terrain, players, currentTurnIndex: 0 });
+      }
+    });
+    console.log(`simulateShot ${mode.padEnd(8)} ${SHOTS} shots in ${ms.toFixed(1)}ms (${(ms / SHOTS).toFixed(2)}ms/shot)`);
+  }
+}
+
+let failures = 0;
+for (const f of FUNCTIONS) failures += benchEvaluate(f);
+benchShots();
+console.log(`checksum ${checksum}`);
+
+if (failures > 0) {
+  console.error(`${failures} evaluator mismatches`);
+  process.exit(1);
+}
@@ -1,6 +1,6 @@
-import { simulateShot, type PlayerGameState, type TerrainState } from "@graphwar/shared";
+import { simulateShot, terrainFromCircles, type PlayerGameState, type TerrainState } from "@graphwar/shared";
 
-const terrain: TerrainState = { circles: [], holes: [] };
+const terrain: TerrainState = terrainFromCircles([]);
 
 function mkPlayers(px: number, py: number): PlayerGameState[] {
   return [
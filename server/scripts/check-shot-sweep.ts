@@ -0,0 +1,143 @@
+import {
+  GAME_CONSTANTS,
+  carveTerrain,
+  collidePoint,
+  collideSegment,
+  fillBitmapCircle,
+  simulateShot,
+  terrainFromCircles,
+  type PlayerGameState,
+  type Point,
+  type SegmentContact,
+  type TerrainState,
+} from "@graphwar/shared";
+
+// Thin-terrain cases that point sampling steps straight over; the engine must stop at each of them.
+// Soldiers get the same treatment: a path that only cuts through a disc between two samples still hits.
+// Run: npm run check:sweep -w @graphwar/server
+
+let failures = 0;
+
+function check(name: string, ok: boolean, detail: string) {
+  console.log(`${ok ? "ok  " : "FAIL"} ${name.padEnd(36)} ${detail}`);
+  if (!ok) failures++;
+}
+
+function describe(c: SegmentContact | null): string {
+  return c ? `t=${c.t.toFixed(4)} ${c.kind}` : "no contact";
+}
+
+// Terrain made of single solid pixels.
+function pixels(list: Array<[number, number]>): TerrainState {
+  const terrain = terrainFromCircles([]);
+  for (const [x, y] of list) fillBitmapCircle(terrain.bitmap, { x: x + 0.5, y: y + 0.5, r: 0.5 });
+  return terrain;
+}
+
+// Reference answer: walk the segment in tiny steps and report the first solid sample.
+function sampledContact(terrain: TerrainState, a: Point, b: Point): SegmentContact | null {
+  const steps = 100_000;
+  for (let i = 0; i <= steps; i++) {
+    const t = i / steps;
+    const p = { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t };
+    if (collidePoint(terrain, p)) {
+      const offPlane = p.x < 0 || p.y < 0 || p.x >= terrain.bitmap.width || p.y >= terrain.bitmap.height;
+      return { t, kind: offPlane ? "bounds" : "terrain" };
+    }
+  }
+  return null;
+}
+
+function checkSegment(name: string, terrain: TerrainState, a: Point, b: Point) {
+  const got = collideSegment(terrain, a, b);
+  const expected = sampledContact(terrain, a, b);
+  const ok =
+    expected === null ? got === null : !!got && got.kind === expected.kind && Math.abs(got.t - expected.t) < 1e-4;
+  // The end points alone must look clear, otherwise the case doesn't test tunnelling.
+  const sampled = collidePoint(terrain, a) || collidePoint(terrain, b);
+  check(name, ok, `${describe(got)} (expected ${describe(expected)}, end points ${sampled ? "hit" : "clear"})`);
+}
+
+checkSegment("single pixel between samples", pixels([[105, 100]]), { x: 100.5, y: 100.5 }, { x: 110.5, y: 100.5 });
+
+checkSegment("diagonal clipping a pixel corner", pixels([[101, 99]]), { x: 100, y: 100.9 }, { x: 102.2, y: 98.7 });
+
+// Explosions carve in place; what's left of a circle can be a wall a single pixel thick.
+const ring = terrainFromCircles([{ x: 200, y: 100, r: 30 }]);
+carveTerrain(ring, { x: 200, y: 100, r: 29.5 });
+checkSegment("ring wall left by a carve", ring, { x: 160.2, y: 100.2 }, { x: 175.2, y: 100.2 });
+
+const carvedAway = terrainFromCircles([{ x: 200, y: 100, r: 3 }]);
+carveTerrain(carvedAway, { x: 200, y: 100, r: 5 });
+checkSegment("carve covering the whole crossing", carvedAway, { x: 190, y: 100 }, { x: 210, y: 100 });
+
+checkSegment("passing beside a pixel", pixels([[105, 101]]), { x: 100.5, y: 100.5 }, { x: 110.5, y: 100.5 });
+
+checkSegment("leaving the plane", pixels([]), { x: 765, y: 100 }, { x: 775, y: 100 });
+
+checkSegment("clear flight", pixels([]), { x: 100, y: 100 }, { x: 110, y: 120 });
+
+function mkPlayers(): PlayerGameState[] {
+  return [
+    { clientId: "a", name: "A", team: 1, soldiers: [{ x: 100, y: 225, angle: 0, alive: true }], currentTurnSoldier: 0 },
+    { clientId: "b", name: "B", team: 2, soldiers: [{ x: 400, y: 225, angle: 0, alive: true }], currentTurnSoldier: 0 },
+  ];
+}
+
+function checkShot(name: string, terrain: TerrainState, functionString: string, stopX: number) {
+  const shot = simulateShot({ mode: "normal", functionString, terrain, players: mkPlayers(), currentTurnIndex: 0 });
+  const ok = shot.endReason === "terrain" && Math.abs(shot.lastPoint.x - stopX) < 0.01 && shot.hits.length === 0;
+  check(
+    name,
+    ok,
+    `${shot.endReason} at x=${shot.lastPoint.x.toFixed(3)} (expected terrain at x=${stopX.toFixed(3)}), hits ${shot.hits.length}`,
+  );
+}
+
+// The target at x=400 sits behind each obstacle, so any hit means the shot went through it.
+checkShot(
+  "shot stops at a one-pixel wall",
+  pixels(Array.from({ length: 450 }, (_, y): [number, number] => [300, y])),
+  "0",
+  300,
+);
+const shotRing = terrainFromCircles([{ x: 300, y: 225, r: 40 }]);
+carveTerrain(shotRing, { x: 300, y: 225, r: 39.5 });
+checkShot("shot stops at a carved ring wall", shotRing, "0", 260);
+
+// The flat shot's samples are fixed by the function, not by the soldiers, so the target can be placed
+// between two of them: off the line by a little less than its radius, the disc only holds a short chord
+// of the segment and neither sample lands inside it.
+function checkGrazingHit() {
+  const { SOLDIER_RADIUS } = GAME_CONSTANTS;
+  const flat = simulateShot({
+    mode: "normal",
+    functionString: "0",
+    terrain: pixels([]),
+    players: mkPlayers(),
+    currentTurnIndex: 0,
+  });
+  const k = flat.path.findIndex((p) => p.x >= 300);
+  const a = flat.path[k]!;
+  const b = flat.path[k + 1]!;
+  const gap = Math.hypot(b.x - a.x, b.y - a.y);
+  const target = { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 + Math.sqrt(SOLDIER_RADIUS ** 2 - (gap / 4) ** 2) };
+
+  const players = mkPlayers();
+  players[1]!.soldiers[0] = { ...target, angle: 0, alive: true };
+  const shot = simulateShot({ mode: "normal", functionString: "0", terrain: pixels([]), players, currentTurnIndex: 0 });
+  const sampled = [a, b].some((p) => Math.hypot(p.x - target.x, p.y - target.y) < SOLDIER_RADIUS);
+  // A sample inside the disc would mean the case doesn't test the segment.
+  check(
+    "shot grazing a soldier's disc",
+    shot.hits.length === 1 && !sampled,
+    `hits ${shot.hits.length} (expected 1, samples ${gap.toFixed(3)} px apart ${sampled ? "inside" : "outside"} the disc)`,
+  );
+}
+
+checkGrazingHit();
+
+if (failures) {
+  console.error(`${failures} sweep check(s) failed`);
+  process.exit(1);
+}
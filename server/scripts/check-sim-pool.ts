@@ -0,0 +1,91 @@
+import { TERRAIN_GENERATORS, createSeededRng, placeSoldiers, type PlayerGameState } from "@graphwar/shared";
+import { BOT_PROFILES } from "../src/botSearch";
+import { checkHintShot, type HintCheckContext } from "../src/hintCheck";
+import { createSimPool, SimJobCancelledError } from "../src/simPool";
+
+// The worker pool gives the same answers as running in-thread, cancels promptly, and leaves the
+// main thread free while it works.
+// Run: npm run check:pool -w @graphwar/server
+
+let failures = 0;
+
+function check(name: string, ok: boolean, detail: string) {
+  console.log(`${ok ? "ok  " : "FAIL"} ${name.padEnd(40)} ${detail}`);
+  if (!ok) failures++;
+}
+
+const rng = createSeededRng(1234);
+const terrain = TERRAIN_GENERATORS.moon.generate(rng);
+const players: PlayerGameState[] = [1, 2].map((team) => ({
+  clientId: `p${team}`,
+  name: `P${team}`,
+  team: team as 1 | 2,
+  soldiers: [0, 1, 2, 3].map(() => ({ x: 0, y: 0, angle: 0, alive: true })),
+  currentTurnSoldier: 0,
+}));
+placeSoldiers(terrain, players, rng);
+
+const ctx: HintCheckContext = {
+  mode: "normal",
+  terrain,
+  players,
+  currentTurnIndex: 0,
+  target: { x: players[1]!.soldiers[0]!.x, y: players[1]!.soldiers[0]!.y },
+  wantsMultiHit: false,
+};
+
+const pool = createSimPool(2);
+
+for (const fn of ["0", "0.3*x", "sin(x) + x^2/40"]) {
+  const inThread = checkHintShot(ctx, fn);
+  const pooled = await pool.run({ kind: "hint.check", ctx, functionString: fn });
+  check(`hint.check matches in-thread: ${fn}`, JSON.stringify(pooled) === JSON.stringify(inThread), `ok=${pooled?.ok}`);
+}
+
+const malformed = await pool.run({ kind: "hint.check", ctx, functionString: "x +* 2" });
+check("hint.check on a malformed function", malformed === null, String(malformed));
+
+// A perfect bot searches for seconds; the main thread must keep ticking meanwhile.
+let maxStallMs = 0;
+let last = performance.now();
+const probe = setInterval(() => {
+  const t = performance.now();
+  maxStallMs = Math.max(maxStallMs, t - last);
+  last = t;
+}, 5);
+const input = { mode: "polar" as const, terrain, players, currentTurnIndex: 0 };
+const shot = await pool.run({ kind: "bot.search", input, options: BOT_PROFILES.perfect });
+clearInterval(probe);
+check("bot.search returns a shot", !!shot, shot ? `${shot.functionString} kills=${shot.kills}` : "null");
+check("main thread free during bot.search", maxStallMs < 30, `worst stall ${maxStallMs.toFixed(1)} ms`);
+
+// Cancelling a running search rejects at the next poll, and the worker is free again soon after.
+let cancelled = false;
+const t0 = performance.now();
+const running = pool.run(
+  { kind: "bot.search", input, options: { ...BOT_PROFILES.perfect, budgetMs: 10_000 } },
+  { isCancelled: () => cancelled },
+);
+setTimeout(() => (cancelled = true), 50);
+const outcome = await running.then(
+  () => "resolved",
+  (e) => (e instanceof SimJobCancelledError ? "cancelled" : `failed: ${e}`),
+);
+check("cancelled bot.search rejects", outcome === "cancelled", `${outcome} after ${(performance.now() - t0).toFixed(0)} ms`);
+
+const queuedCancel = pool.run({ kind: "hint.check", ctx, functionString: "x" }, { isCancelled: () => true });
+const queuedOutcome = await queuedCancel.then(
+  () => "resolved",
+  (e) => (e instanceof SimJobCancelledError ? "cancelled" : `failed: ${e}`),
+);
+check("job cancelled before it starts", queuedOutcome === "cancelled", queuedOutcome);
+
+const afterCancel = await pool.run({ kind: "hint.check", ctx, functionString: "0" });
+check("pool still works after cancellation", afterCancel !== null, `ok=${afterCancel?.ok}`);
+
+await pool.close();
+
+if (failures) {
+  console.error(`${failures} pool check(s) failed`);
+  process.exit(1);
+}
@@ -1,4 +1,4 @@
--- MariaDB schema for Graphwar Web stats
+-- MariaDB schema for Graphwar Web stats and saved maps
 -- Run:
 --   mysql -u root -p < server/sql/schema.sql
 
@@ -20,3 +20,19 @@ CREATE TABLE IF NOT EXISTS player_stats (
   PRIMARY KEY (id),
   UNIQUE KEY uq_player_name (name)
 );
+
+-- Custom maps saved from the map editor; map_json is the exported map file (see exportCustomMap).
+-- author is only a label: deleting a map takes the edit key handed out when it was saved, whose
+-- SHA-256 is edit_key_hash.
+CREATE TABLE IF NOT EXISTS maps (
+  id BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+  author VARCHAR(64) NOT NULL,
+  name VARCHAR(64) NOT NULL,
+  map_json MEDIUMTEXT NOT NULL,
+  edit_key_hash CHAR(64) NOT NULL,
+  play_count INT NOT NULL DEFAULT 0,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  PRIMARY KEY (id),
+  KEY idx_map_play_count (play_count)
+);
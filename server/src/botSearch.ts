@@ -0,0 +1,273 @@
+import {
+  GAME_CONSTANTS,
+  simulateShot,
+  type BotDifficulty,
+  type GameMode,
+  type PlayerGameState,
+  type TerrainState,
+} from "@graphwar/shared";
+import { yieldToEventLoop } from "./eventLoop";
+import {
+  ANGLE_EPS,
+  graphShapes,
+  launchAngleShape,
+  parabolaCurves,
+  parametricShapes,
+  polarShapes,
+  sineCurves,
+  slopeShapes,
+  straightCurve,
+  withShooterAngle,
+  type CandidateTables,
+  type Curve,
+  type LocalTarget,
+  type Shape,
+  type ShotCandidate,
+} from "./shotCandidates";
+
+// Bot aiming: try curves from a few families against the real terrain with simulateShot and keep the
+// best one. The search is cut into short slices so a bot turn never holds up the event loop.
+
+export type BotSearchInput = {
+  mode: GameMode;
+  terrain: TerrainState;
+  players: PlayerGameState[];
+  currentTurnIndex: number;
+};
+
+export type BotSearchOptions = {
+  // Wall-clock budget for the whole search.
+  budgetMs: number;
+  // The search yields to the event loop after this much work.
+  sliceMs?: number;
+  // Stop as soon as a shot kills this many enemy soldiers.
+  stopAtKills?: number;
+  // Search depth: how many enemy soldiers (nearest first) to aim at, and how many curves to try on each.
+  maxTargets?: number;
+  maxShapesPerTarget?: number;
+  // Standard deviation, in pixels at the target, of the error added to the chosen shot before it is fired.
+  aimErrorPx?: number;
+  // Checked between candidates; once true the search gives up and resolves null.
+  isCancelled?: () => boolean;
+};
+
+export type BotShot = {
+  functionString: string;
+  // snd_ode only: the launch angle the shooter must be turned to.
+  angle?: number;
+  // What the shot kills and how close it comes as planned, before any aim error.
+  kills: number;
+  // Closest approach of the path to an alive enemy soldier's edge, in pixels (0 when it kills).
+  missPx: number;
+};
+
+// Each level searches deeper than the one below and misses by less. The aim error is measured at the
+// target in pixels, so a level misses by about the same distance whatever the mode and the range;
+// the soldier's radius is 7 px, so easy bots mostly miss and hard ones mostly hit.
+export const BOT_PROFILES: Record<BotDifficulty, Omit<BotSearchOptions, "isCancelled">> = {
+  easy: { budgetMs: 150, maxTargets: 1, maxShapesPerTarget: 5, aimErrorPx: 16 },
+  medium: { budgetMs: 500, maxTargets: 2, maxShapesPerTarget: 16, aimErrorPx: 7 },
+  hard: { budgetMs: 1200, aimErrorPx: 2.5 },
+  // Keeps looking for a multi-kill instead of taking the first hit.
+  perfect: { budgetMs: 2500, stopAtKills: Number.POSITIVE_INFINITY, aimErrorPx: 0 },
+};
+
+const DEFAULT_SLICE_MS = 8;
+// Below this forward distance (game units) x-based families can't reach the target.
+const MIN_AHEAD = 0.5;
+
+const TABLES: CandidateTables = {
+  decimals: 6,
+  // Midpoint lift of a parabola or height of a sine bump, in game units. Small ones first.
+  lifts: [1, -1, 2, -2, 3.5, -3.5, 5, -5, 7.5, -7.5, 10, -10, 14, -14],
+  sineAmplitudes: [1.5, -1.5, 3, -3, 6, -6],
+  spiralPowers: [2, 0.5, 3, 1.5, 0.25, 5],
+  petalBulges: [1.5, 2.5],
+  polarRamps: [0.25, -0.25, 0.5, -0.5, 1, -1],
+};
+
+// A line, then parabolas and sines bent either way around whatever is in between.
+const CURVES: Curve[] = [straightCurve(TABLES), ...parabolaCurves(TABLES), ...sineCurves(TABLES)];
+
+function localTargets(input: BotSearchInput): LocalTarget[] {
+  const { PLANE_LENGTH, PLANE_GAME_LENGTH } = GAME_CONSTANTS;
+  const shooter = input.players[input.currentTurnIndex]!;
+  const s = shooter.soldiers[shooter.currentTurnSoldier]!;
+  const scale = PLANE_GAME_LENGTH / PLANE_LENGTH;
+  const out: Array<LocalTarget & { d: number }> = [];
+  for (const p of input.players) {
+    if (p.team === shooter.team) continue;
+    for (const e of p.soldiers) {
+      if (!e.alive) continue;
+      const dx = (shooter.team === 2 ? s.x - e.x : e.x - s.x) * scale;
+      const dy = -(e.y - s.y) * scale;
+      out.push({ dx, dy, d: Math.hypot(dx, dy) });
+    }
+  }
+  out.sort((a, b) => a.d - b.d);
+  return out.map(({ dx, dy }) => ({ dx, dy }));
+}
+
+function shapesFor(mode: GameMode, t: LocalTarget): Shape[] {
+  // Every family below except parametric and polar only moves forward.
+  const ahead = t.dx > MIN_AHEAD;
+
+  if (mode === "normal") return ahead ? graphShapes(CURVES) : [];
+
+  if (mode === "parametric") {
+    if (Math.hypot(t.dx, t.dy) < 1e-6) return [];
+    return parametricShapes(TABLES, Math.abs(t.dx) < MIN_AHEAD ? [] : CURVES);
+  }
+
+  if (mode === "fst_ode") return ahead ? slopeShapes(TABLES) : [];
+
+  if (mode === "snd_ode") {
+    if (!ahead) return [];
+    // Angles near the straight line first, then steeper lobs and dives.
+    const direct = Math.atan(t.dy / t.dx);
+    const limit = Math.PI / 2 - ANGLE_EPS;
+    const shapes = [launchAngleShape(TABLES, 0)];
+    for (let k = 1; k <= 14; k++) {
+      for (const offset of [k * 0.1, -k * 0.1]) {
+        if (Math.abs(direct + offset) < limit) shapes.push(launchAngleShape(TABLES, offset));
+      }
+    }
+    return shapes;
+  }
+
+  return Math.hypot(t.dx, t.dy) < 1e-6 ? [] : polarShapes(TABLES, t);
+}
+
+// Distance from the path to the edge of the nearest alive enemy soldier, in pixels.
+function closestApproachPx(path: Array<{ x: number; y: number }>, enemies: Array<{ x: number; y: number }>): number {
+  let best = Number.POSITIVE_INFINITY;
+  for (const p of path) {
+    for (const e of enemies) {
+      const d = (p.x - e.x) * (p.x - e.x) + (p.y - e.y) * (p.y - e.y);
+      if (d < best) best = d;
+    }
+  }
+  return Math.max(0, Math.sqrt(best) - GAME_CONSTANTS.SOLDIER_RADIUS);
+}
+
+function evaluateCandidate(input: BotSearchInput, c: ShotCandidate): BotShot | null {
+  const shooter = input.players[input.currentTurnIndex]!;
+  const players =
+    c.angle === undefined ? input.players : withShooterAngle(input.players, input.currentTurnIndex, c.angle);
+  let res;
+  try {
+    res = simulateShot({
+      mode: input.mode,
+      functionString: c.functionString,
+      terrain: input.terrain,
+      players,
+      currentTurnIndex: input.currentTurnIndex,
+    });
+  } catch {
+    return null;
+  }
+
+  // Friendly hits don't count (fireShot ignores them too).
+  const enemyIds = new Set(input.players.filter((p) => p.team !== shooter.team).map((p) => p.clientId));
+  const kills = res.hits.filter((h) => enemyIds.has(h.targetClientId)).length;
+  const enemies = input.players
+    .filter((p) => p.team !== shooter.team)
+    .flatMap((p) => p.soldiers.filter((s) => s.alive));
+  return {
+    functionString: c.functionString,
+    angle: c.angle,
+    kills,
+    missPx: kills > 0 ? 0 : closestApproachPx(res.path, enemies),
+  };
+}
+
+function better(a: BotShot, b: BotShot | null): boolean {
+  if (!b) return true;
+  if (a.kills !== b.kills) return a.kills > b.kills;
+  return a.missPx < b.missPx;
+}
+
+function gaussian(): number {
+  const u = 1 - Math.random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * Math.random());
+}
+
+// The point the bot actually aims at: the target moved by a normally distributed error of
+// `errorPx` pixels on each axis. dx keeps its side of MIN_AHEAD so forward-only families stay valid.
+function missAim(t: LocalTarget, errorPx: number): LocalTarget {
+  const sigma = (errorPx * GAME_CONSTANTS.PLANE_GAME_LENGTH) / GAME_CONSTANTS.PLANE_LENGTH;
+  const dx = t.dx + gaussian() * sigma;
+  const dy = t.dy + gaussian() * sigma;
+  if (t.dx > MIN_AHEAD && dx <= MIN_AHEAD) return { dx: t.dx, dy };
+  if (t.dx < -MIN_AHEAD && dx >= -MIN_AHEAD) return { dx: t.dx, dy };
+  return { dx, dy };
+}
+
+// Best shot found within the budget, or null if nothing could be simulated (or the search was cancelled).
+// Targets are tried nearest first; every family is tried against one target before moving to the next.
+export async function searchBotShot(input: BotSearchInput, opts: BotSearchOptions): Promise<BotShot | null> {
+  const shooter = input.players[input.currentTurnIndex];
+  if (!shooter || !shooter.soldiers[shooter.currentTurnSoldier]?.alive) return null;
+
+  const sliceMs = opts.sliceMs ?? DEFAULT_SLICE_MS;
+  const stopAtKills = opts.stopAtKills ?? 1;
+  const deadline = performance.now() + opts.budgetMs;
+  let sliceStart = performance.now();
+  let best: { shot: BotShot; shape: Shape; target: LocalTarget } | null = null;
+
+  search: for (const target of localTargets(input).slice(0, opts.maxTargets)) {
+    for (const shape of shapesFor(input.mode, target).slice(0, opts.maxShapesPerTarget)) {
+      if (performance.now() - sliceStart >= sliceMs) {
+        await yieldToEventLoop();
+        sliceStart = performance.now();
+      }
+      if (opts.isCancelled?.()) return null;
+      if (performance.now() >= deadline) break search;
+
+      const shot = evaluateCandidate(input, shape(target));
+      if (shot && better(shot, best?.shot ?? null)) best = { shot, shape, target };
+      if (best && best.shot.kills >= stopAtKills) break search;
+    }
+  }
+
+  if (!best || !opts.aimErrorPx) return best?.shot ?? null;
+  const fired = best.shape(missAim(best.target, opts.aimErrorPx));
+  return { ...best.shot, functionString: fired.functionString, angle: fired.angle };
+}
+
+// A plain straight shot at the target (pixels, y up): what bots fire when the search finds nothing,
+// and the last resort for hints.
+export function botChooseFunction(mode: GameMode, dxLocal: number, dyLocal: number): string {
+  // These functions are interpreted in shooter-local coordinates.
+  if (mode === "normal") {
+    const slope = dxLocal !== 0 ? dyLocal / dxLocal : 0;
+    const m = Math.max(-6, Math.min(6, slope));
+    const mm = Math.round(m * 10) / 10;
+    if (Math.abs(mm) < 0.2) return "0";
+    return `${mm}*x`;
+  }
+  if (mode === "fst_ode") {
+    // dy/dx = k
+    const slope = dxLocal !== 0 ? dyLocal / dxLocal : 0;
+    const k = Math.max(-6, Math.min(6, slope));
+    const kk = Math.round(k * 10) / 10;
+    return `${kk}`;
+  }
+  if (mode === "parametric") {
+    // Straight line towards the target: (x, y) = t * unit direction.
+    const len = Math.hypot(dxLocal, dyLocal);
+    if (len < 1e-9) return "t; 0";
+    const ux = Math.round((dxLocal / len) * 1000) / 1000;
+    const uy = Math.round((dyLocal / len) * 1000) / 1000;
+    return `${ux}*t; ${uy}*t`;
+  }
+  if (mode === "polar") {
+    // Constant r: straight out along θ=0, then round the circle through the target.
+    // Targets below the forward line are reached the other way round with a negative radius.
+    const r = (Math.hypot(dxLocal, dyLocal) * GAME_CONSTANTS.PLANE_GAME_LENGTH) / GAME_CONSTANTS.PLANE_LENGTH;
+    const rr = Math.round(r * 1000) / 1000;
+    return dyLocal >= 0 ? `${rr}` : `${-rr}`;
+  }
+  // snd_ode: y'' = 0 gives straight-ish trajectory depending on angle.
+  return "0";
+}
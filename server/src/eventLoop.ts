@@ -0,0 +1,5 @@
+// Long searches (bot shots, offline hints) await this between slices of work so they never hold up
+// the event loop: socket messages and timers get a turn in between.
+export function yieldToEventLoop(): Promise<void> {
+  return new Promise((resolve) => setImmediate(resolve));
+}
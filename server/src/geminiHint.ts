@@ -9,6 +9,7 @@ export type GeminiHintArgs = {
   };
   dxLocalPixels: number;
   dyLocalGameSign: number;
+  validationFeedback?: string;
 };
 
 export type GeminiHintDebugEvent =
@@ -148,8 +149,17 @@ export async function generateGeminiHint(
     `dx_local_pixels=${args.dxLocalPixels.toFixed(1)}\n` +
     `dy_local_game=${args.dyLocalGameSign.toFixed(1)} (positive up)\n` +
     `\n` +
-    `Allowed tokens: numbers, x, y, dy, + - * / ^, parentheses.\n` +
+    `Allowed tokens: numbers, x, y, dy, + - * / ^, parentheses, sin cos tan asin acos atan sinh cosh tanh abs sqrt log ln exp floor ceil round sign step,\n` +
+    `and comma-separated calls min(a,b) max(a,b) mod(a,b) if(c,a,b). Write decimals with a dot.\n` +
     `Obstacles: circles are solid terrain; holes are removed terrain. Avoid colliding with circles.\n` +
+    (args.mode === "parametric"
+      ? `mode=parametric: reply with "x(t); y(t)" (two expressions of t separated by ';'), shifted so t=0 is the shooter.\n`
+      : args.mode === "polar"
+        ? `mode=polar: reply with "r(θ)" (one expression of θ), traced around the shooter as θ grows from 0.\n`
+        : ``) +
+    (args.validationFeedback
+      ? `Simulation feedback from the game engine about your previous suggestion:\n${args.validationFeedback.replace(/\s+/g, " ").trim().slice(0, 2000)}\n`
+      : ``) +
     `If unsure: return {"functionString":"x","explanation":"Simple baseline."}.\n` +
     `\n` +
     `Output schema EXACTLY:\n` +
@@ -0,0 +1,160 @@
+import {
+  GAME_CONSTANTS,
+  simulateShot,
+  type GameMode,
+  type PlayerGameState,
+  type ShotEndReason,
+  type TerrainState,
+} from "@graphwar/shared";
+import { yieldToEventLoop } from "./eventLoop";
+import { SimJobCancelledError } from "./simPool";
+
+// Simulation side of hint.request: whether a suggested function is a shot worth handing to the player.
+// Pure functions of a game snapshot, so they can run in the simulation worker pool.
+
+export type HintCheckContext = {
+  mode: GameMode;
+  terrain: TerrainState;
+  players: PlayerGameState[];
+  currentTurnIndex: number;
+  // The enemy soldier the hint aims at, in pixels.
+  target: { x: number; y: number };
+  // With two or more enemies left in a two-team match, a hint must kill at least two of them.
+  wantsMultiHit: boolean;
+};
+
+export type HintCheck = {
+  ok: boolean;
+  // Stopped by terrain or the plane's edge short of the target (see endReason for which).
+  collided: boolean;
+  endReason: ShotEndReason;
+  // Closest approach of the path to the target, squared pixels.
+  bestD2: number;
+  // Local game x of that closest point, relative to the shooter.
+  lastLocalX: number;
+  enemyHitCount: number;
+  lastPoint: { x: number; y: number };
+};
+
+// Hint searches yield to the event loop after this much work, like the bot search does.
+export const HINT_SLICE_MS = 8;
+
+function distSq(a: { x: number; y: number }, b: { x: number; y: number }): number {
+  const dx = a.x - b.x;
+  const dy = a.y - b.y;
+  return dx * dx + dy * dy;
+}
+
+// Shooter-local game coordinates of a pixel, mirrored for team 2 like simulateShot does.
+export function hintLocalGame(ctx: HintCheckContext, p: { x: number; y: number }): { x: number; y: number } {
+  const { PLANE_LENGTH, PLANE_GAME_LENGTH } = GAME_CONSTANTS;
+  const shooter = ctx.players[ctx.currentTurnIndex]!;
+  const s = shooter.soldiers[shooter.currentTurnSoldier]!;
+  const dx = shooter.team === 2 ? s.x - p.x : p.x - s.x;
+  return { x: (PLANE_GAME_LENGTH * dx) / PLANE_LENGTH, y: (PLANE_GAME_LENGTH * (s.y - p.y)) / PLANE_LENGTH };
+}
+
+// Simulates the whole shot, like fireShot would: a step cap short of that cuts long cross-map shots
+// off before they reach the target. Throws MalformedFunctionError when the function doesn't parse.
+export function checkHintShot(ctx: HintCheckContext, fn: string): HintCheck {
+  const shot = simulateShot({
+    mode: ctx.mode,
+    functionString: fn,
+    terrain: ctx.terrain,
+    players: ctx.players,
+    currentTurnIndex: ctx.currentTurnIndex,
+  });
+  const r = GAME_CONSTANTS.EXPLOSION_RADIUS;
+  const dxLocalGame = hintLocalGame(ctx, ctx.target).x;
+
+  // Use closest approach along the path, not the final collision point.
+  // This avoids incorrectly accepting shots that collide with a blocker near the target line.
+  let bestD2 = Number.POSITIVE_INFINITY;
+  let bestLocalX = Number.NEGATIVE_INFINITY;
+  for (const pt of shot.path) {
+    const d2 = distSq(pt, ctx.target);
+    if (d2 < bestD2) {
+      bestD2 = d2;
+      bestLocalX = hintLocalGame(ctx, pt).x;
+    }
+  }
+
+  // Also require meaningful forward progress in LOCAL GAME X.
+  // Otherwise it can clip a circle early and never really threaten the target.
+  const progressOk = Number.isFinite(dxLocalGame) && dxLocalGame > 1e-6 ? bestLocalX >= dxLocalGame * 0.85 : true;
+
+  const nearTargetOk = bestD2 <= r * 1.25 * (r * 1.25);
+
+  // Count unique ENEMY soldier hits (friendly fire doesn't kill).
+  const shooterTeam = ctx.players[ctx.currentTurnIndex]!.team;
+  const seen = new Set<string>();
+  for (const h of shot.hits) {
+    const tp = ctx.players.find((p) => p.clientId === h.targetClientId);
+    if (!tp || tp.team === shooterTeam) continue;
+    seen.add(`${h.targetClientId}:${h.soldierIndex}`);
+  }
+  const enemyHitCount = seen.size;
+
+  const multiHitOk = !ctx.wantsMultiHit ? true : enemyHitCount >= 2;
+
+  // Hard rule for practice hints: do not accept any function whose trajectory runs into terrain or off
+  // the plane on the way. The engine sweeps every path segment exactly, so the shot ends at the first
+  // contact; striking terrain right at the target still blows it up and is fine, and so is terrain
+  // (or the edge) the shot only reaches after passing through its objective.
+  const objectiveMet = ctx.wantsMultiHit ? multiHitOk : nearTargetOk;
+  const pathCollidesTerrain =
+    (shot.endReason === "terrain" || shot.endReason === "bounds") &&
+    distSq(shot.lastPoint, ctx.target) > r * 1.25 * (r * 1.25) &&
+    !objectiveMet;
+  return {
+    ok: !pathCollidesTerrain && progressOk && (ctx.wantsMultiHit ? multiHitOk : nearTargetOk),
+    collided: pathCollidesTerrain,
+    endReason: shot.endReason,
+    bestD2,
+    lastLocalX: bestLocalX,
+    enemyHitCount,
+    lastPoint: shot.lastPoint,
+  };
+}
+
+// Deterministic fallback when the LLM doesn't come up with a shot: parabolas through the shooter and
+// the target, bent more and more, until one passes checkHintShot. Throws SimJobCancelledError once
+// `isCancelled` turns true.
+export async function searchHintParabola(
+  ctx: HintCheckContext,
+  isCancelled: () => boolean,
+): Promise<{ fn: string; m: number; a: number } | null> {
+  if (ctx.mode !== "normal" && ctx.mode !== "parametric") return null;
+  const { x: dx, y: dy } = hintLocalGame(ctx, ctx.target);
+  if (!Number.isFinite(dx) || Math.abs(dx) < 1e-6) return null;
+
+  const m = dy / dx;
+
+  // Scan curvature magnitudes; negative a lifts (because x*(x-dx) is negative mid-way).
+  const mags = [0.0005, 0.001, 0.002, 0.004, 0.008, 0.012, 0.02, 0.03, 0.05, 0.08];
+  const candidates: number[] = [];
+  for (const mag of mags) {
+    candidates.push(-mag, mag);
+  }
+
+  let sliceStart = performance.now();
+  for (const a of candidates) {
+    if (performance.now() - sliceStart >= HINT_SLICE_MS) {
+      await yieldToEventLoop();
+      sliceStart = performance.now();
+    }
+    if (isCancelled()) throw new SimJobCancelledError();
+
+    // In parametric mode the same parabola is traced with x = t.
+    const fn =
+      ctx.mode === "parametric"
+        ? `t; ${m.toFixed(6)}*t + ${a.toFixed(6)}*t*(t-${dx.toFixed(4)})`
+        : `${m.toFixed(6)}*x + ${a.toFixed(6)}*x*(x-${dx.toFixed(4)})`;
+    try {
+      if (checkHintShot(ctx, fn).ok) return { fn, m, a };
+    } catch {
+      // ignore
+    }
+  }
+  return null;
+}
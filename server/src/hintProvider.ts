@@ -0,0 +1,98 @@
+import fs from "node:fs";
+import { generateGeminiHint } from "./geminiHint";
+import { generateLlmHint, parseLlmJson, type LlmHintArgs, type LlmHintDebugEvent } from "./llmHint";
+
+// Where hint.request gets its suggestions from. The handler owns the loop around a provider: it
+// simulates every suggestion and feeds the engine's verdict back through `validationFeedback`.
+
+export type HintSuggestion = { functionString: string; explanation?: string };
+
+export interface HintProvider {
+  readonly name: HintProviderName;
+  suggest(args: LlmHintArgs, onDebugEvent?: (ev: LlmHintDebugEvent) => void): Promise<HintSuggestion>;
+}
+
+// HINT_PROVIDER=local has no provider: hints come from the offline solver (localHint.ts) alone.
+export type HintProviderName = "fpt" | "gemini" | "mock";
+
+export function createFptHintProvider(): HintProvider {
+  return { name: "fpt", suggest: (args, onDebugEvent) => generateLlmHint(args, onDebugEvent) };
+}
+
+export function createGeminiHintProvider(fetchImpl: typeof fetch = fetch): HintProvider {
+  return { name: "gemini", suggest: (args, onDebugEvent) => generateGeminiHint(args, fetchImpl, onDebugEvent) };
+}
+
+// One scripted model reply: raw text as the model would send it (not necessarily valid JSON), an HTTP
+// error such as a 429 with its retry hint, or a network failure.
+export type MockHintStep =
+  | { text: string }
+  | { status: number; message?: string; retryInSeconds?: number }
+  | { error: string };
+
+// Replays `steps` in order, one per model call, like the real providers: a reply that doesn't parse
+// uses up the next step as the repair call, and errors come out worded the way fpt words them.
+// Once the script runs out every call fails.
+export function createMockHintProvider(steps: MockHintStep[]): HintProvider & { readonly callCount: number } {
+  let next = 0;
+
+  const call = (attempt: 1 | 2, onDebugEvent?: (ev: LlmHintDebugEvent) => void): string => {
+    const step = steps[next++];
+    if (!step) throw new Error("LLM request failed: mock hint script is exhausted");
+    if ("error" in step) throw new Error(`LLM request failed: ${step.error}`);
+    if ("status" in step) {
+      const retry = step.retryInSeconds != null ? ` Please retry in ${step.retryInSeconds}s.` : "";
+      const message = step.message ?? (step.status === 429 ? "Rate limit exceeded" : "Mock error");
+      onDebugEvent?.({ type: "response", attempt, status: step.status, rawBody: message });
+      throw new Error(`LLM request failed (${step.status}): ${message}.${retry}`);
+    }
+    onDebugEvent?.({ type: "attempt", attempt, prompt: "(mock)", text: step.text });
+    if (!step.text.trim()) throw new Error("LLM returned empty content");
+    return step.text;
+  };
+
+  return {
+    name: "mock",
+    get callCount() {
+      return next;
+    },
+    async suggest(_args, onDebugEvent) {
+      const first = call(1, onDebugEvent);
+      try {
+        const hint = parseLlmJson(first);
+        onDebugEvent?.({ type: "parsed", attempt: 1, hint });
+        return hint;
+      } catch {
+        const hint = parseLlmJson(call(2, onDebugEvent));
+        onDebugEvent?.({ type: "parsed", attempt: 2, hint });
+        return hint;
+      }
+    },
+  };
+}
+
+// HINT_PROVIDER picks the provider: "local" (default), "fpt" (also "llm"), "gemini" or "mock".
+// The mock replays the JSON array of MockHintStep in HINT_MOCK_SCRIPT.
+export function createHintProviderFromEnv(): HintProvider | null {
+  const raw = (process.env.HINT_PROVIDER ?? "local").trim().toLowerCase();
+  switch (raw) {
+    case "fpt":
+    case "llm":
+      return createFptHintProvider();
+    case "gemini":
+      return createGeminiHintProvider();
+    case "mock": {
+      const file = process.env.HINT_MOCK_SCRIPT;
+      if (!file) throw new Error("HINT_PROVIDER=mock needs HINT_MOCK_SCRIPT (a JSON file of scripted replies)");
+      const steps = JSON.parse(fs.readFileSync(file, "utf8"));
+      if (!Array.isArray(steps)) throw new Error(`${file}: expected a JSON array of scripted replies`);
+      return createMockHintProvider(steps);
+    }
+    case "local":
+    case "":
+      return null;
+    default:
+      console.warn(`[hints] unknown HINT_PROVIDER "${raw}"; using the offline solver`);
+      return null;
+  }
+}
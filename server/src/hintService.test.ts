@@ -0,0 +1,250 @@
+import { describe, expect, it } from "vitest";
+import { terrainFromCircles, type PlayerGameState, type TerrainCircle } from "@graphwar/shared";
+import { checkHintShot, type HintCheckContext } from "./hintCheck";
+import { createMockHintProvider, type HintProvider, type MockHintStep } from "./hintProvider";
+import {
+  describeHintError,
+  materializeTemplateFunction,
+  solveHint,
+  type HintProgress,
+  type HintServiceOptions,
+  type HintSnapshot,
+} from "./hintService";
+import { runSimJob } from "./simJobs";
+import { SimJobCancelledError, type SimPool } from "./simPool";
+
+// Simulation jobs run in-thread here; the pool only moves them to a worker.
+const inThread = {
+  run: async (job, opts) => {
+    if (opts?.isCancelled?.()) throw new SimJobCancelledError();
+    return runSimJob(job, () => false);
+  },
+} as Pick<SimPool, "run">;
+
+// The shooter stands at (100, 225) facing right; enemies sit at the same height unless placed otherwise.
+function snapshot(enemies: Array<{ x: number; y: number }>, circles: TerrainCircle[] = []): HintSnapshot {
+  const players: PlayerGameState[] = [
+    {
+      clientId: "me",
+      name: "Me",
+      team: 1,
+      soldiers: [{ x: 100, y: 225, angle: 0, alive: true }],
+      currentTurnSoldier: 0,
+    },
+    {
+      clientId: "them",
+      name: "Them",
+      team: 2,
+      soldiers: enemies.map((e) => ({ ...e, angle: 0, alive: true })),
+      currentTurnSoldier: 0,
+    },
+  ];
+  return { mode: "normal", terrain: terrainFromCircles(circles), craters: [], players, currentTurnIndex: 0 };
+}
+
+// A hill between the shooter and the target: the straight line runs into it.
+const HILL: TerrainCircle = { x: 300, y: 300, r: 110 };
+
+function run(snap: HintSnapshot, provider: HintProvider | null, extra: Partial<HintServiceOptions> = {}) {
+  const progress: HintProgress[] = [];
+  const promise = solveHint(snap, { provider, sim: inThread, onProgress: (p) => progress.push(p), ...extra });
+  return { promise, progress };
+}
+
+// A provider that records the feedback it was given before replaying each step.
+function recording(steps: MockHintStep[]) {
+  const mock = createMockHintProvider(steps);
+  const feedback: Array<string | undefined> = [];
+  const provider: HintProvider = {
+    name: "mock",
+    suggest: (args, onDebugEvent) => {
+      feedback.push(args.validationFeedback);
+      return mock.suggest(args, onDebugEvent);
+    },
+  };
+  return { provider, feedback };
+}
+
+// Aimed at the first enemy.
+function ctxFor(snap: HintSnapshot, wantsMultiHit = false): HintCheckContext {
+  return {
+    mode: snap.mode,
+    terrain: snap.terrain,
+    players: snap.players,
+    currentTurnIndex: 0,
+    target: snap.players[1]!.soldiers[0]!,
+    wantsMultiHit,
+  };
+}
+
+const reply = (functionString: string, explanation = "Scripted."): MockHintStep => ({
+  text: JSON.stringify({ functionString, explanation }),
+});
+
+describe("checkHintShot", () => {
+  it("rejects a shot that runs into terrain before the target", () => {
+    const check = checkHintShot(ctxFor(snapshot([{ x: 500, y: 225 }], [HILL])), "0");
+    expect(check.collided).toBe(true);
+    expect(check.ok).toBe(false);
+  });
+
+  it("accepts a curve over the terrain that lands on the target", () => {
+    const check = checkHintShot(ctxFor(snapshot([{ x: 500, y: 225 }], [HILL])), "-0.04*x*(x - 25.974)");
+    expect(check.collided).toBe(false);
+    expect(check.ok).toBe(true);
+  });
+
+  it("rejects a shot that leaves the plane before the target", () => {
+    const check = checkHintShot(ctxFor(snapshot([{ x: 500, y: 225 }])), "x^2");
+    expect(check).toMatchObject({ endReason: "bounds", collided: true, ok: false });
+  });
+
+  it("does not count terrain the shot reaches after passing through the target", () => {
+    const check = checkHintShot(ctxFor(snapshot([{ x: 400, y: 225 }], [{ x: 600, y: 225, r: 40 }])), "0");
+    expect(check.enemyHitCount).toBe(1);
+    expect(check.ok).toBe(true);
+  });
+
+  it("asks for two kills when the objective is multi-hit", () => {
+    const snap = snapshot([
+      { x: 400, y: 225 },
+      { x: 550, y: 225 },
+    ]);
+    expect(checkHintShot(ctxFor(snap, true), "0").ok).toBe(true);
+    const oneKill = checkHintShot(ctxFor(snap, true), "-0.05*max(0, x - 21)^2");
+    expect(oneKill.enemyHitCount).toBe(1);
+    expect(oneKill.ok).toBe(false);
+  });
+});
+
+describe("solveHint with a provider", () => {
+  it("returns the first suggestion the engine accepts", async () => {
+    const { promise, progress } = run(snapshot([{ x: 500, y: 225 }]), createMockHintProvider([reply("0", "Flat.")]));
+    const hint = await promise;
+    expect(hint).toMatchObject({ functionString: "0", source: "provider", validated: true });
+    expect(hint.explanation).toContain("attempt 1/10");
+    expect(progress).toEqual([
+      { attempt: 1, maxAttempts: 10, status: "thinking" },
+      { attempt: 1, maxAttempts: 10, status: "done" },
+    ]);
+  });
+
+  it("rejects a colliding suggestion and feeds the collision back", async () => {
+    const { provider, feedback } = recording([reply("0"), reply("-0.04*x*(x - 25.974)")]);
+    const hint = await run(snapshot([{ x: 500, y: 225 }], [HILL]), provider).promise;
+    expect(hint).toMatchObject({ functionString: "-0.04*x*(x - 25.974)", source: "provider", validated: true });
+    expect(feedback[0]).toBeUndefined();
+    expect(feedback[1]).toContain("collided with terrain");
+  });
+
+  it("substitutes dx and dy placeholders before checking", async () => {
+    const hint = await run(snapshot([{ x: 500, y: 225 }]), createMockHintProvider([reply("dy/dx*x")])).promise;
+    expect(hint.source).toBe("provider");
+    expect(hint.functionString).toBe("(0.00000000)*x");
+  });
+
+  it("keeps asking until a suggestion takes out two soldiers", async () => {
+    const { provider, feedback } = recording([reply("-0.05*max(0, x - 21)^2"), reply("0")]);
+    const snap = snapshot([
+      { x: 400, y: 225 },
+      { x: 550, y: 225 },
+    ]);
+    const hint = await run(snap, provider).promise;
+    expect(hint).toMatchObject({ functionString: "0", validated: true });
+    expect(feedback[1]).toContain("Enemy hits achieved: 1");
+  });
+
+  it("tells the provider when a suggestion doesn't parse", async () => {
+    const { provider, feedback } = recording([reply("x +* 2"), reply("0")]);
+    const hint = await run(snapshot([{ x: 500, y: 225 }]), provider).promise;
+    expect(hint.source).toBe("provider");
+    expect(feedback[1]).toContain("not parseable");
+  });
+
+  it("uses the repair call when a reply isn't JSON", async () => {
+    const mock = createMockHintProvider([{ text: "Try a flat line!" }, reply("0")]);
+    const hint = await run(snapshot([{ x: 500, y: 225 }]), mock).promise;
+    expect(hint.source).toBe("provider");
+    expect(mock.callCount).toBe(2);
+  });
+});
+
+describe("solveHint fallbacks", () => {
+  it("searches parabolas once every attempt collided", async () => {
+    const snap = snapshot([{ x: 500, y: 225 }], [HILL]);
+    const mock = createMockHintProvider([reply("0"), reply("0")]);
+    const hint = await run(snap, mock, { maxAttempts: 2 }).promise;
+    expect(hint).toMatchObject({ source: "parabola", validated: true });
+    expect(checkHintShot(ctxFor(snap), hint.functionString).ok).toBe(true);
+  });
+
+  it("falls back to the offline solver on a 429 and says when to retry", async () => {
+    const mock = createMockHintProvider([{ status: 429, retryInSeconds: 12 }]);
+    const { promise, progress } = run(snapshot([{ x: 500, y: 225 }], [HILL]), mock, { collectDebug: true });
+    const hint = await promise;
+    expect(hint).toMatchObject({ source: "local", validated: true });
+    expect(hint.error).toContain("(429)");
+    expect(hint.explanation).toContain("Retry in ~12s");
+    expect(progress.at(-1)).toEqual({ attempt: 0, maxAttempts: 0, status: "error" });
+    expect(hint.debugEvents.some((ev) => ev.type === "response" && ev.status === 429)).toBe(true);
+  });
+
+  it("falls back to the offline solver when the repair reply is malformed too", async () => {
+    const mock = createMockHintProvider([{ text: "{ oops" }, { text: "still not json" }]);
+    const hint = await run(snapshot([{ x: 500, y: 225 }]), mock).promise;
+    expect(hint.source).toBe("local");
+    expect(hint.error).toBe("LLM returned an invalid response");
+  });
+
+  it("solves offline without a provider", async () => {
+    const { promise, progress } = run(snapshot([{ x: 500, y: 225 }], [HILL]), null);
+    const hint = await promise;
+    expect(hint).toMatchObject({ source: "local", validated: true });
+    expect(hint.error).toBeUndefined();
+    expect(progress.map((p) => p.status)).toEqual(["thinking", "done"]);
+  });
+
+  it("gives the straight fallback when nothing clears the terrain", async () => {
+    // The shooter is buried: every path starts inside terrain.
+    const hint = await run(snapshot([{ x: 500, y: 225 }], [{ x: 100, y: 225, r: 60 }]), null).promise;
+    expect(hint).toMatchObject({ source: "fallback", validated: false, functionString: "0" });
+  });
+
+  it("stops once the turn is over", async () => {
+    let over = false;
+    const provider: HintProvider = {
+      name: "mock",
+      suggest: async () => {
+        over = true;
+        return { functionString: "0" };
+      },
+    };
+    const { promise } = run(snapshot([{ x: 500, y: 225 }]), provider, { isCancelled: () => over });
+    await expect(promise).rejects.toBeInstanceOf(SimJobCancelledError);
+  });
+
+  it("stops the offline searches between candidates when cancelled", async () => {
+    const ctx = ctxFor(snapshot([{ x: 500, y: 225 }], [HILL]));
+    for (const kind of ["hint.solve", "hint.parabola"] as const) {
+      await expect(runSimJob({ kind, ctx }, () => true)).rejects.toBeInstanceOf(SimJobCancelledError);
+    }
+  });
+});
+
+describe("hint helpers", () => {
+  it("materializes dx, dy and dy/dx", () => {
+    expect(materializeTemplateFunction("dy/dx*x + 0.1*x*(x-dx)", 20, 5)).toBe(
+      "(0.25000000)*x + 0.1*x*(x-(20.00000000))",
+    );
+  });
+
+  it("words quota errors for the player", () => {
+    expect(describeHintError("LLM request failed (429): Rate limit exceeded. Please retry in 2.5s.")).toBe(
+      "AI is rate-limited/quota-limited (HTTP 429). Retry in ~3s.",
+    );
+    expect(describeHintError("Gemini request failed (429): RESOURCE_EXHAUSTED.")).toBe(
+      "AI is rate-limited/quota-limited (HTTP 429).",
+    );
+    expect(describeHintError("LLM request timeout after 60000ms")).toBe("LLM request timeout after 60000ms");
+  });
+});
@@ -0,0 +1,372 @@
+import {
+  GAME_CONSTANTS,
+  type ExplosionHole,
+  type GameMode,
+  type HintLlmDebugEvent,
+  type PlayerGameState,
+  type ServerToClientMessage,
+  type TerrainState,
+} from "@graphwar/shared";
+import { botChooseFunction } from "./botSearch";
+import type { HintCheckContext } from "./hintCheck";
+import type { HintProvider } from "./hintProvider";
+import { SimJobCancelledError, type SimPool } from "./simPool";
+
+// The hint.request pipeline: picks a target, asks the provider (or the offline solver), checks every
+// suggestion with the engine, feeds the verdict back and falls back step by step. It works on a game
+// snapshot and reports through callbacks, so the socket handler only pauses the turn and relays.
+
+export type HintSnapshot = {
+  mode: GameMode;
+  terrain: TerrainState;
+  craters: ExplosionHole[];
+  players: PlayerGameState[];
+  currentTurnIndex: number;
+  // Where the player pointed, if anywhere: the alive enemy nearest to it becomes the target.
+  requestedTarget?: { x: number; y: number };
+};
+
+export type HintProgress = Omit<Extract<ServerToClientMessage, { type: "hint.progress" }>, "type">;
+
+export type HintServiceOptions = {
+  // null: the offline solver alone.
+  provider: HintProvider | null;
+  // Runs the simulation jobs; the server passes its worker pool.
+  sim: Pick<SimPool, "run">;
+  // "The turn is over" or "the player left": stops the pipeline with SimJobCancelledError.
+  isCancelled?: () => boolean;
+  onProgress?: (progress: HintProgress) => void;
+  // Provider rounds before giving up on it, 1–10.
+  maxAttempts?: number;
+  // Keep the provider's request/response events for the debug panel.
+  collectDebug?: boolean;
+};
+
+export type HintSource =
+  // A provider suggestion the engine accepted.
+  | "provider"
+  // The offline solver (validated or only its closest shot).
+  | "local"
+  // The parabola search after every provider suggestion was rejected.
+  | "parabola"
+  // The provider suggestion that came closest without hitting terrain.
+  | "best"
+  // botChooseFunction's straight shot.
+  | "fallback";
+
+export type HintResult = {
+  functionString: string;
+  explanation: string;
+  // snd_ode: the launch angle the hint was worked out for, when it differs from the shooter's.
+  angle?: number;
+  source: HintSource;
+  // The engine confirmed the shot reaches its objective without running into terrain.
+  validated: boolean;
+  // Set when the provider itself failed (network, quota, unusable reply).
+  error?: string;
+  debugEvents: HintLlmDebugEvent[];
+};
+
+export const DEFAULT_HINT_ATTEMPTS = 10;
+
+type Point = { x: number; y: number };
+
+function distSq(a: Point, b: Point): number {
+  const dx = a.x - b.x;
+  const dy = a.y - b.y;
+  return dx * dx + dy * dy;
+}
+
+// Absolute game coordinates of a pixel, mirrored for team 2.
+function toGameCoords(p: Point, inverted: boolean): Point {
+  const { PLANE_LENGTH, PLANE_HEIGHT, PLANE_GAME_LENGTH } = GAME_CONSTANTS;
+  const x = inverted ? PLANE_LENGTH - p.x : p.x;
+  return {
+    x: (PLANE_GAME_LENGTH * (x - PLANE_LENGTH / 2)) / PLANE_LENGTH,
+    y: (PLANE_GAME_LENGTH * (-p.y + PLANE_HEIGHT / 2)) / PLANE_LENGTH,
+  };
+}
+
+// The enemy soldier to aim at: the one nearest the requested point when it lies ahead of the shooter,
+// else the nearest one ahead, else the nearest one at all.
+export function pickHintTarget(snapshot: HintSnapshot): Point | null {
+  const turnPlayer = snapshot.players[snapshot.currentTurnIndex];
+  const shooter = turnPlayer?.soldiers[turnPlayer.currentTurnSoldier];
+  if (!turnPlayer || !shooter) return null;
+
+  const inverted = turnPlayer.team === 2;
+  const shooterGame = toGameCoords(shooter, inverted);
+  const isAhead = (t: Point) => {
+    const dx = toGameCoords(t, inverted).x - shooterGame.x;
+    return Number.isFinite(dx) && dx > 0.15;
+  };
+
+  const enemies = snapshot.players
+    .filter((p) => p.team !== turnPlayer.team)
+    .flatMap((p) => p.soldiers.filter((s) => s.alive).map((s) => ({ x: s.x, y: s.y })));
+  const nearest = (to: Point, among: Point[]) => {
+    let best: Point | null = null;
+    let bestD = Number.POSITIVE_INFINITY;
+    for (const e of among) {
+      const d = distSq(e, to);
+      if (d < bestD) {
+        bestD = d;
+        best = e;
+      }
+    }
+    return best;
+  };
+
+  const requested = snapshot.requestedTarget;
+  if (requested && Number.isFinite(requested.x) && Number.isFinite(requested.y)) {
+    const picked = nearest(requested, enemies);
+    if (picked && isAhead(picked)) return picked;
+  }
+  return nearest(shooter, enemies.filter(isAhead)) ?? nearest(shooter, enemies);
+}
+
+// Some LLMs answer with the prompt's placeholders (dx, dy, dy/dx), which the parser doesn't know;
+// substitute the target vector in local game units.
+export function materializeTemplateFunction(fnRaw: string, dx: number, dy: number): string {
+  const m = Number.isFinite(dx) && Math.abs(dx) > 1e-12 ? dy / dx : 0;
+  let fn = String(fnRaw || "");
+  // Replace dy/dx first to avoid clobbering "dy" or "dx" replacements.
+  fn = fn.replace(/\bdy\s*\/\s*dx\b/gi, `(${m.toFixed(8)})`);
+  fn = fn.replace(/\bdy\b/gi, `(${dy.toFixed(8)})`);
+  fn = fn.replace(/\bdx\b/gi, `(${dx.toFixed(8)})`);
+  // Remove double spaces introduced by substitutions.
+  return fn.replace(/\s+/g, " ").trim();
+}
+
+// One line for the player about why the provider failed; quota errors get their retry time.
+export function describeHintError(rawReason: string): string {
+  const oneLine = String(rawReason).replace(/\s+/g, " ").trim().slice(0, 400);
+
+  const retryInSeconds = (() => {
+    const m = oneLine.match(/Please retry in\s+([0-9]+(?:\.[0-9]+)?)s/i);
+    if (!m) return null;
+    const n = Number(m[1]);
+    return Number.isFinite(n) && n >= 0 ? Math.ceil(n) : null;
+  })();
+
+  const is429 = /request failed \(429\)/i.test(oneLine) || /\bcode\s*[:=]?\s*429\b/i.test(oneLine);
+  const looksLikeQuota = /quota|rate limit|RESOURCE_EXHAUSTED/i.test(oneLine);
+  if (is429 || looksLikeQuota) {
+    const suffix = retryInSeconds ? ` Retry in ~${retryInSeconds}s.` : "";
+    return `AI is rate-limited/quota-limited (HTTP 429).${suffix}`;
+  }
+  return oneLine.length ? oneLine : "AI failed";
+}
+
+export function hintAttemptsFromEnv(): number {
+  const raw = process.env.AI_HINT_MAX_ATTEMPTS;
+  if (!raw) return DEFAULT_HINT_ATTEMPTS;
+  const n = Number(raw);
+  if (!Number.isFinite(n) || n <= 0) return DEFAULT_HINT_ATTEMPTS;
+  return Math.max(1, Math.min(10, Math.floor(n)));
+}
+
+export async function solveHint(snapshot: HintSnapshot, opts: HintServiceOptions): Promise<HintResult> {
+  const { provider, sim, onProgress } = opts;
+  const isCancelled = opts.isCancelled ?? (() => false);
+  const maxAttempts = Math.max(1, Math.min(10, Math.floor(opts.maxAttempts ?? DEFAULT_HINT_ATTEMPTS)));
+  const debugEvents: HintLlmDebugEvent[] = [];
+
+  const turnPlayer = snapshot.players[snapshot.currentTurnIndex];
+  const shooterSoldier = turnPlayer?.soldiers[turnPlayer.currentTurnSoldier];
+  if (!turnPlayer || !shooterSoldier) throw new Error("No shooter soldier");
+  const target = pickHintTarget(snapshot);
+  if (!target) throw new Error("No valid target");
+
+  const inverted = turnPlayer.team === 2;
+  const dxLocalPixels = inverted ? shooterSoldier.x - target.x : target.x - shooterSoldier.x;
+  const dyLocalGameSign = -(target.y - shooterSoldier.y);
+  const fallbackFn = botChooseFunction(snapshot.mode, dxLocalPixels, dyLocalGameSign);
+
+  const shooterGame = toGameCoords(shooterSoldier, inverted);
+  const targetGame = toGameCoords(target, inverted);
+  const dxLocalGame = targetGame.x - shooterGame.x;
+  const dyLocalGame = targetGame.y - shooterGame.y;
+
+  const aliveEnemySoldiers = snapshot.players.flatMap((p) =>
+    p.team !== turnPlayer.team ? p.soldiers.filter((s) => s.alive) : [],
+  );
+  const aliveTeams = new Set(snapshot.players.filter((p) => p.soldiers.some((s) => s.alive)).map((p) => p.team));
+  const wantsMultiHit = aliveTeams.size === 2 && aliveEnemySoldiers.length >= 2;
+
+  const ctx: HintCheckContext = {
+    mode: snapshot.mode,
+    terrain: snapshot.terrain,
+    players: snapshot.players,
+    currentTurnIndex: snapshot.currentTurnIndex,
+    target,
+    wantsMultiHit,
+  };
+  const runOpts = { isCancelled };
+
+  const result = (r: Omit<HintResult, "debugEvents">): HintResult => ({ ...r, debugEvents });
+
+  if (!provider) {
+    onProgress?.({ attempt: 1, maxAttempts: 1, status: "thinking" });
+    const local = await sim.run({ kind: "hint.solve", ctx }, runOpts);
+    onProgress?.({ attempt: 1, maxAttempts: 1, status: "done" });
+    if (!local) {
+      return result({
+        functionString: fallbackFn,
+        explanation: "Every curve the solver tried runs into terrain; here is a straight shot to adjust.",
+        source: "fallback",
+        validated: false,
+      });
+    }
+    return result({ ...local, source: "local" });
+  }
+
+  try {
+    const args = {
+      mode: snapshot.mode,
+      shooterTeam: turnPlayer.team,
+      shooter: { x: shooterSoldier.x, y: shooterSoldier.y },
+      target,
+      enemies: aliveEnemySoldiers.map((s) => ({ x: s.x, y: s.y })).slice(0, 24),
+      objective: wantsMultiHit ? ("multi" as const) : ("single" as const),
+      // Full obstacle coordinates so the model can avoid any blocker, not just those near the straight corridor.
+      obstacles: {
+        circles: snapshot.terrain.circles.map((c) => ({ x: c.x, y: c.y, r: c.r })),
+        holes: snapshot.craters.map((h) => ({ x: h.x, y: h.y, r: h.r })),
+      },
+      dxLocalPixels,
+      dyLocalGameSign,
+    };
+
+    let bestCandidate: { functionString: string; explanation?: string; bestD2: number; enemyHitCount: number } | null =
+      null;
+
+    let nextFeedback: string | undefined;
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      onProgress?.({ attempt, maxAttempts, status: "thinking" });
+      const hint = await provider.suggest(
+        { ...args, validationFeedback: nextFeedback },
+        opts.collectDebug ? (ev) => debugEvents.push(ev) : undefined,
+      );
+
+      if (isCancelled()) throw new SimJobCancelledError();
+
+      const fn = materializeTemplateFunction(hint.functionString, dxLocalGame, dyLocalGame);
+      const evalRes = await sim.run({ kind: "hint.check", ctx, functionString: fn }, runOpts);
+      if (!evalRes) {
+        nextFeedback =
+          `Attempt ${attempt}/${maxAttempts} was rejected because the function was not parseable/executable by the game engine. ` +
+          `Return a simpler valid expression using only supported tokens.`;
+        continue;
+      }
+      const minDistPx = Math.sqrt(evalRes.bestD2);
+
+      // Track best candidate by multi-hit first, then distance.
+      if (!evalRes.collided && Number.isFinite(evalRes.bestD2)) {
+        if (
+          !bestCandidate ||
+          evalRes.enemyHitCount > bestCandidate.enemyHitCount ||
+          (evalRes.enemyHitCount === bestCandidate.enemyHitCount && evalRes.bestD2 < bestCandidate.bestD2)
+        ) {
+          bestCandidate = {
+            functionString: fn,
+            explanation: hint.explanation,
+            bestD2: evalRes.bestD2,
+            enemyHitCount: evalRes.enemyHitCount,
+          };
+        }
+      }
+
+      if (evalRes.ok) {
+        onProgress?.({ attempt, maxAttempts, status: "done" });
+        return result({
+          functionString: fn,
+          explanation: `${hint.explanation ?? "AI hint."} (attempt ${attempt}/${maxAttempts}, validated no terrain collision)`,
+          source: "provider",
+          validated: true,
+        });
+      }
+
+      const lastLocalY = toGameCoords(evalRes.lastPoint, inverted).y - shooterGame.y;
+
+      // Provide concrete collision/near-miss feedback for the next attempt.
+      nextFeedback =
+        `Attempt ${attempt}/${maxAttempts} was rejected by the game engine simulation. ` +
+        (!evalRes.collided
+          ? `It did not collide, but missed the target. `
+          : evalRes.endReason === "bounds"
+            ? `It left the plane before reaching the target. `
+            : `It collided with terrain before reaching the target. `) +
+        (wantsMultiHit ? `Enemy hits achieved: ${evalRes.enemyHitCount}. Try to hit 2+ enemies if possible. ` : ``) +
+        `Closest distance to target was ~${minDistPx.toFixed(1)}px. ` +
+        `It stopped at LocalGame approx (x=${evalRes.lastLocalX.toFixed(3)}, y=${lastLocalY.toFixed(3)}), ` +
+        `but needs to reach (dx=${dxLocalGame.toFixed(3)}, dy=${dyLocalGame.toFixed(3)}). ` +
+        `Adjust the curve to increase clearance around the blocking circles and reduce miss distance.`;
+
+      debugEvents.push({
+        type: "error",
+        message: `Attempt ${attempt} rejected: collided=${String(evalRes.collided)} minDistPx=${minDistPx.toFixed(
+          1,
+        )} lastPoint=(${evalRes.lastPoint.x.toFixed(1)},${evalRes.lastPoint.y.toFixed(1)})`,
+      });
+    }
+
+    // If no perfect shot found, prefer a deterministic local parabola search.
+    const auto = await sim.run({ kind: "hint.parabola", ctx }, runOpts);
+    if (auto) {
+      onProgress?.({ attempt: maxAttempts, maxAttempts, status: "done" });
+      return result({
+        functionString: auto.fn,
+        explanation: `Auto-adjusted a parabola to clear terrain and still reach the target (LLM failed after ${maxAttempts} attempts; validated no terrain collision).`,
+        source: "parabola",
+        validated: true,
+      });
+    }
+
+    // Otherwise, if we have a non-colliding best candidate, return it even if it slightly misses.
+    if (bestCandidate) {
+      onProgress?.({ attempt: maxAttempts, maxAttempts, status: "done" });
+      return result({
+        functionString: bestCandidate.functionString,
+        explanation:
+          bestCandidate.explanation ??
+          `Best non-colliding AI hint found after ${maxAttempts} attempts (multi-hit=${bestCandidate.enemyHitCount}; may still miss slightly; validated no terrain collision).`,
+        source: "best",
+        validated: false,
+      });
+    }
+
+    return result({
+      functionString: fallbackFn,
+      explanation: `AI couldn't find a safe path after ${maxAttempts} attempts; using a safe fallback.`,
+      source: "fallback",
+      validated: false,
+    });
+  } catch (e) {
+    if (e instanceof SimJobCancelledError) throw e;
+    // The provider can fail or return malformed output; still give a usable hint.
+    const rawReason = e instanceof Error ? e.message : "AI failed";
+    const reasonForUser = describeHintError(rawReason);
+    debugEvents.push({ type: "error", message: String(rawReason) });
+
+    const local = await sim.run({ kind: "hint.solve", ctx }, runOpts);
+    onProgress?.({ attempt: 0, maxAttempts: 0, status: "error" });
+    if (!local) {
+      return result({
+        functionString: fallbackFn,
+        explanation: `AI failed (${reasonForUser}); using a safe fallback.`,
+        source: "fallback",
+        validated: false,
+        error: rawReason,
+      });
+    }
+    return result({
+      functionString: local.functionString,
+      explanation: `AI failed (${reasonForUser}); using the offline solver instead. ${local.explanation}`,
+      angle: local.angle,
+      source: "local",
+      validated: local.validated,
+      error: rawReason,
+    });
+  }
+}
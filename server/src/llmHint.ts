@@ -235,6 +235,15 @@ export async function generateLlmHint(
       ? `Objective: Prefer a trajectory that hits MULTIPLE enemy soldiers (2+ if possible) in a single shot, while still avoiding all circles.\n`
       : `Objective: Hit the target while avoiding all circles.\n`;
 
+  const modeLine =
+    args.mode === "parametric"
+      ? `PARAMETRIC MODE: functionString must be "x(t); y(t)" (two expressions of t separated by ';', no x or y).\n` +
+        `The curve is shifted so t=0 sits on the shooter, and t grows from 0. Example: "t; dy/dx*t + a*t*(t-dx)".\n`
+      : args.mode === "polar"
+        ? `POLAR MODE: functionString must be "r(θ)" (one expression of θ, also written theta; no x or y).\n` +
+          `Points are (r*cos θ, r*sin θ) around the shooter and θ grows from 0; a non-zero r(0) first travels straight out along θ=0.\n`
+        : ``;
+
   const basePrompt =
     `Task: Suggest ONE functionString the player can type to shoot AND avoid terrain circles.\n` +
     objectiveLine +
@@ -245,6 +254,7 @@ export async function generateLlmHint(
     `So you must reason in local-game units (not pixels).\n` +
     `TargetLocalGame=(dx,dy) shown below; a good function roughly satisfies y(0)=0 and y(dx)=dy.\n` +
     `You MAY use placeholders 'dx', 'dy', and 'dy/dx' in your functionString; the server will substitute numeric values.\n` +
+    modeLine +
     `\n` +
     `LocalGame:\n` +
     `dx=${targetLocalGame.x.toFixed(4)}\n` +
@@ -268,7 +278,7 @@ export async function generateLlmHint(
     `Common safe template (example only): y = m*x + a*x*(x-dx), where m=dy/dx (preserves endpoints).\n` +
     `But you can also use other smooth curves (e.g. add sin-bumps, higher-degree polynomials, etc.) as long as it stays valid and avoids circles.\n` +
     `You are allowed to use exp/ln/log/sqrt/trig if it helps (keep values finite over x in [0,dx]).\n` +
-    `Avoid piecewise/conditionals (not supported). Prefer smooth, stable expressions.\n` +
+    `Piecewise if(c,a,b) / step(a) exist, but prefer smooth, stable expressions.\n` +
     `\n` +
     `How to reason (do this explicitly):\n` +
     `1) Ensure y(0)=0 and y(dx)=dy (endpoints).\n` +
@@ -276,7 +286,8 @@ export async function generateLlmHint(
     `3) Also sanity-check 10-20 sample x values between 0..dx against nearby circles.\n` +
     `Note: The engine checks collision along the drawn path, so do not rely on "threading" between circles with tiny gaps.\n` +
     `\n` +
-    `Tokens supported: numbers, x, y, y', + - * / ^, parentheses, sin cos tan abs sqrt log ln exp, pi, e.\n` +
+    `Tokens supported: numbers, x, y, y', + - * / ^, parentheses, sin cos tan asin acos atan sinh cosh tanh abs sqrt log ln exp floor ceil round sign step, pi, e.\n` +
+    `Multi-argument calls use commas: min(a,b) max(a,b) mod(a,b) if(c,a,b) (a when c>0, else b). Write decimals with a dot.\n` +
     `If unsure: return {"functionString":"x","explanation":"Simple baseline."}.\n` +
     `\n` +
     `Output schema EXACTLY:\n` +
@@ -0,0 +1,147 @@
+import { yieldToEventLoop } from "./eventLoop";
+import { checkHintShot, hintLocalGame, HINT_SLICE_MS, type HintCheck, type HintCheckContext } from "./hintCheck";
+import {
+  ANGLE_EPS,
+  cornerCurves,
+  cubicCurves,
+  currentAngleShapes,
+  graphShapes,
+  launchAngleShape,
+  parabolaCurves,
+  parametricShapes,
+  polarShapes,
+  sineCurves,
+  slopeShapes,
+  straightCurve,
+  withShooterAngle,
+  type CandidateTables,
+  type Curve,
+  type LocalTarget,
+  type Shape,
+  type ShotCandidate,
+} from "./shotCandidates";
+import { SimJobCancelledError } from "./simPool";
+
+// Offline hint solver: fits simple curves through the shooter (the local origin) and the target, and
+// keeps the first one checkHintShot accepts. Needs no API key and always gives the same answer for the
+// same game, so it is the default hint provider and what tests run against.
+
+export type LocalHint = {
+  functionString: string;
+  explanation: string;
+  // snd_ode only, when the hint needs a different launch angle than the shooter's current one.
+  angle?: number;
+  // false when no candidate passed and this is only the closest non-colliding one.
+  validated: boolean;
+};
+
+// Hints bend further than the bot does and add corners and cubics, but write shorter numbers and leave
+// out the polar petals and ramps.
+const TABLES: CandidateTables = {
+  decimals: 4,
+  lifts: [1, -1, 2, -2, 3, -3, 4.5, -4.5, 6, -6, 8, -8, 11, -11, 15, -15],
+  sineAmplitudes: [1, -1, 2, -2, 3.5, -3.5, 5, -5],
+  spiralPowers: [2, 0.5, 3, 1.5],
+  petalBulges: [],
+  polarRamps: [],
+};
+
+const CURVES: Curve[] = [
+  straightCurve(TABLES),
+  ...parabolaCurves(TABLES),
+  ...cornerCurves(TABLES),
+  ...cubicCurves(TABLES),
+  ...sineCurves(TABLES),
+];
+
+function shapesFor(ctx: HintCheckContext, t: LocalTarget): Shape[] {
+  const ahead = t.dx > 0.15;
+
+  switch (ctx.mode) {
+    case "normal":
+      return ahead ? graphShapes(CURVES) : [];
+    case "parametric":
+      return Math.hypot(t.dx, t.dy) > 1e-6 ? parametricShapes(TABLES, ahead ? CURVES : []) : [];
+    case "fst_ode":
+      return ahead ? slopeShapes(TABLES) : [];
+    case "snd_ode": {
+      if (!ahead) return [];
+      // The shooter's own angle first, then the angle searched with a constant y''.
+      const shooter = ctx.players[ctx.currentTurnIndex]!;
+      const shapes = currentAngleShapes(TABLES, shooter.soldiers[shooter.currentTurnSoldier]!.angle);
+      const direct = Math.atan(t.dy / t.dx);
+      const limit = Math.PI / 2 - ANGLE_EPS;
+      for (let k = 0; k <= 28; k++) {
+        for (const offset of k === 0 ? [0] : [k * 0.05, -k * 0.05]) {
+          if (Math.abs(direct + offset) < limit) shapes.push(launchAngleShape(TABLES, offset));
+        }
+      }
+      return shapes;
+    }
+    case "polar":
+      return Math.hypot(t.dx, t.dy) > 1e-6 ? polarShapes(TABLES, t) : [];
+  }
+}
+
+// The first candidate that passes checkHintShot; otherwise the one that hits the most enemies, then the
+// non-colliding one that comes closest, or null when every candidate runs into terrain short of them.
+// `isCancelled` is checked between candidates; once true the solver throws SimJobCancelledError.
+export async function solveLocalHint(ctx: HintCheckContext, isCancelled: () => boolean): Promise<LocalHint | null> {
+  let best: { candidate: ShotCandidate; check: HintCheck } | null = null;
+  let sliceStart = performance.now();
+
+  const { x: dx, y: dy } = hintLocalGame(ctx, ctx.target);
+  const target = { dx, dy };
+  for (const shape of shapesFor(ctx, target)) {
+    if (performance.now() - sliceStart >= HINT_SLICE_MS) {
+      await yieldToEventLoop();
+      sliceStart = performance.now();
+    }
+    if (isCancelled()) throw new SimJobCancelledError();
+
+    const candidate = shape(target);
+    const shotCtx =
+      candidate.angle === undefined
+        ? ctx
+        : { ...ctx, players: withShooterAngle(ctx.players, ctx.currentTurnIndex, candidate.angle) };
+    let check: HintCheck;
+    try {
+      check = checkHintShot(shotCtx, candidate.functionString);
+    } catch {
+      continue;
+    }
+    if (check.ok) {
+      return {
+        functionString: candidate.functionString,
+        explanation: `${candidate.explanation} Checked with the game engine: it clears the terrain.`,
+        angle: candidate.angle,
+        validated: true,
+      };
+    }
+    if (check.collided && check.enemyHitCount === 0) continue;
+    if (
+      !best ||
+      check.enemyHitCount > best.check.enemyHitCount ||
+      (check.enemyHitCount === best.check.enemyHitCount && check.bestD2 < best.check.bestD2)
+    ) {
+      best = { candidate, check };
+    }
+  }
+
+  if (!best) return null;
+  const { enemyHitCount, bestD2 } = best.check;
+  const why =
+    enemyHitCount > 0
+      ? `No checked shot ${ctx.wantsMultiHit ? "takes out two soldiers" : "clears the terrain all the way"}; this one hits ${
+          enemyHitCount === 1 ? "one" : enemyHitCount
+        }.`
+      : `No checked shot reaches the target; this is the closest one that clears the terrain (misses by about ${Math.round(
+          Math.sqrt(bestD2),
+        )} px).`;
+  return {
+    functionString: best.candidate.functionString,
+    explanation: `${best.candidate.explanation} ${why}`,
+    angle: best.candidate.angle,
+    validated: false,
+  };
+}
@@ -2,22 +2,39 @@ import "dotenv/config";
 import http from "node:http";
 import { WebSocket, WebSocketServer } from "ws";
 import { nanoid } from "nanoid";
-import { generateLlmHint } from "./llmHint";
+import { BOT_PROFILES, botChooseFunction } from "./botSearch";
+import { createHintProviderFromEnv } from "./hintProvider";
+import { hintAttemptsFromEnv, solveHint } from "./hintService";
+import { createSimPoolFromEnv, SimJobCancelledError } from "./simPool";
 import { createStatsDbFromEnv } from "./statsDb";
 import {
   encodeMessage,
   PROTOCOL_VERSION,
   safeParseJsonMessage,
+  validateClientMessage,
+  GAME_MODES,
+  MAP_STYLES,
   GAME_CONSTANTS,
-  randomGaussian,
+  createSeededRng,
+  randomSeed,
   type GameMode,
+  type MapStyle,
+  type BotDifficulty,
   type DifficultyMode,
   type MatchPreset,
   type RoomConfig,
+  type RoomConfigInput,
   simulateShot,
-  collidePoint,
+  MalformedFunctionError,
   type TerrainState,
-  type TerrainCircle,
+  type SerializedTerrain,
+  type ExplosionHole,
+  TERRAIN_GENERATORS,
+  placeSoldiers,
+  customMapTerrain,
+  type CustomMap,
+  serializeTerrain,
+  carveTerrain,
   type PlayerGameState,
   type ClientToServerMessage,
   type PlayerState,
@@ -25,7 +42,10 @@ import {
   type RoomSummary,
   type ServerToClientMessage,
   type LastGameOver,
+  type MatchReplay,
   type PlayerStats,
+  type ErrorCode,
+  type ErrorDetails,
 } from "@graphwar/shared";
 
 type Client = {
@@ -33,6 +53,31 @@ type Client = {
   name: string;
   roomId: string | null;
   ready: boolean;
+  sessionToken: string;
+};
+
+type ShotRejection = { code: ErrorCode; message: string; details?: ErrorDetails };
+
+// Per player, for one match.
+type MatchStats = {
+  kills: number;
+  bestMultiKill: number;
+  // Own turns started so far; hint cooldowns count these.
+  turns: number;
+  hintsUsed: number;
+  // `turns` when the player last took a hint.
+  lastHintTurn: number | null;
+  hintedKills: number;
+};
+
+function newMatchStats(): MatchStats {
+  return { kills: 0, bestMultiKill: 0, turns: 0, hintsUsed: 0, lastHintTurn: null, hintedKills: 0 };
+}
+
+type HeldSeat = {
+  client: Client;
+  expiresAt: number;
+  timer: NodeJS.Timeout;
 };
 
 type Room = {
@@ -40,14 +85,26 @@ type Room = {
   name: string;
   ownerClientId: string;
   config: RoomConfig;
+  customMap: CustomMap | null;
+  // Set while customMap is a saved map from the maps table, so its plays are counted.
+  customMapId: number | null;
   clients: Set<WebSocket>;
-  bots: Map<string, { clientId: string; name: string }>;
+  spectators: Set<WebSocket>;
+  // Players whose socket dropped mid-match, keyed by session token, waiting for session.resume.
+  heldSeats: Map<string, HeldSeat>;
+  bots: Map<string, { clientId: string; name: string; difficulty: BotDifficulty }>;
   gameState: "lobby" | "in_game";
   lastGameOver?: LastGameOver;
+  lastReplay?: MatchReplay;
   game?: {
     mode: GameMode;
     difficulty: DifficultyMode;
+    seed: number;
     terrain: TerrainState;
+    // Encoded once per carve rather than on every room.state broadcast.
+    serializedTerrain: SerializedTerrain;
+    // Explosions so far; the bitmap already has them carved, this is only for hint prompts.
+    craters: ExplosionHole[];
     players: PlayerGameState[];
     currentTurnIndex: number;
     timeTurnStarted: number;
@@ -57,6 +114,7 @@ type Room = {
     lastShot?: {
       byClientId: string;
       functionString: string;
+      mode: GameMode;
       fireAngle: number;
       startedAtMs: number;
       functionVelocity: number;
@@ -64,7 +122,8 @@ type Room = {
       hits: Array<{ targetClientId: string; soldierIndex: number; killStep: number }>;
       path: Array<{ x: number; y: number }>;
     };
-    matchStatsByClientId: Map<string, { kills: number; bestMultiKill: number }>;
+    matchStatsByClientId: Map<string, MatchStats>;
+    replay: MatchReplay;
     timers: Set<NodeJS.Timeout>;
     botTurnScheduledFor?: string;
   };
@@ -89,6 +148,8 @@ const clientsBySocket = new Map<WebSocket, Client>();
 const roomsById = new Map<string, Room>();
 
 const statsDb = createStatsDbFromEnv();
+const simPool = createSimPoolFromEnv();
+const hintProvider = createHintProviderFromEnv();
 void statsDb.init().catch((e) => {
   // eslint-disable-next-line no-console
   console.warn("[statsDb] init failed (server will continue without DB):", e);
@@ -110,10 +171,39 @@ function maxPlayersForPreset(preset: MatchPreset): number {
   }
 }
 
-function makeRoomConfig(partial?: Partial<Pick<RoomConfig, "preset" | "difficulty">>): RoomConfig {
+function makeRoomConfig(partial?: RoomConfigInput): RoomConfig {
   const preset: MatchPreset = partial?.preset ?? "1vX";
   const difficulty: DifficultyMode = partial?.difficulty ?? "practice";
-  return { preset, difficulty, maxPlayers: maxPlayersForPreset(preset) };
+  const soldiersPerPlayer = Math.max(
+    1,
+    Math.min(GAME_CONSTANTS.MAX_SOLDIERS_PER_PLAYER, Math.trunc(partial?.soldiersPerPlayer ?? 1) || 1),
+  );
+  const mode: GameMode = GAME_MODES.includes(partial?.mode as GameMode) ? partial!.mode! : "normal";
+  const perTurnMode = partial?.perTurnMode === true;
+  const mapStyle: MapStyle = MAP_STYLES.includes(partial?.mapStyle as MapStyle) ? partial!.mapStyle! : "moon";
+  const clampInt = (v: number | undefined, max: number) => Math.max(0, Math.min(max, Math.trunc(v ?? 0) || 0));
+  const hintsPerMatch = clampInt(partial?.hintsPerMatch, GAME_CONSTANTS.MAX_HINTS_PER_MATCH);
+  const hintCooldownTurns = clampInt(partial?.hintCooldownTurns, GAME_CONSTANTS.MAX_HINT_COOLDOWN_TURNS);
+  const hintKillPenalty = Math.max(0, Math.min(1, Number(partial?.hintKillPenalty ?? 0) || 0));
+  return {
+    preset,
+    difficulty,
+    maxPlayers: maxPlayersForPreset(preset),
+    soldiersPerPlayer,
+    mode,
+    perTurnMode,
+    mapStyle,
+    hintsPerMatch,
+    hintCooldownTurns,
+    hintKillPenalty,
+  };
+}
+
+// Own turns, counting the current (or last) one, before the player may take another hint.
+function hintCooldownTurnsLeft(room: Room, clientId: string): number {
+  const ms = room.game?.matchStatsByClientId.get(clientId);
+  if (!ms || ms.lastHintTurn == null || room.config.hintCooldownTurns <= 0) return 0;
+  return Math.max(0, ms.lastHintTurn + room.config.hintCooldownTurns + 1 - ms.turns);
 }
 
 function isBotId(clientId: string): boolean {
@@ -121,7 +211,7 @@ function isBotId(clientId: string): boolean {
 }
 
 function roomPopulation(room: Room): number {
-  return room.clients.size + room.bots.size;
+  return room.clients.size + room.heldSeats.size + room.bots.size;
 }
 
 function requireRoomOwner(client: Client, room: Room): boolean {
@@ -134,7 +224,9 @@ function asRoomState(room: Room): RoomState {
     name: room.name,
     ownerClientId: room.ownerClientId,
     config: room.config,
+    customMap: room.customMap,
     players: [] as PlayerState[],
+    spectators: [] as RoomState["spectators"],
     gameState: room.gameState,
     lastGameOver: room.lastGameOver,
   };
@@ -146,11 +238,21 @@ function asRoomState(room: Room): RoomState {
     base.players.push({ clientId: c.clientId, name: c.name, ready: c.ready });
   }
 
+  for (const seat of room.heldSeats.values()) {
+    base.players.push({ clientId: seat.client.clientId, name: seat.client.name, ready: seat.client.ready, connected: false });
+  }
+
   for (const b of room.bots.values()) {
-    base.players.push({ clientId: b.clientId, name: b.name, ready: true, isBot: true });
+    base.players.push({ clientId: b.clientId, name: b.name, ready: true, isBot: true, botDifficulty: b.difficulty });
   }
   base.players.sort((a, b) => a.name.localeCompare(b.name));
 
+  for (const ws of room.spectators) {
+    const c = clientsBySocket.get(ws);
+    if (c) base.spectators.push({ clientId: c.clientId, name: c.name });
+  }
+  base.spectators.sort((a, b) => a.name.localeCompare(b.name));
+
   if (room.gameState !== "in_game" || !room.game) return base;
 
   const currentTurnClientId = room.game.players[room.game.currentTurnIndex]?.clientId ?? "";
@@ -158,8 +260,9 @@ function asRoomState(room: Room): RoomState {
     ...base,
     game: {
       mode: room.game.mode,
+      seed: room.game.seed,
       difficulty: room.game.difficulty,
-      terrain: room.game.terrain,
+      terrain: room.game.serializedTerrain,
       currentTurnClientId,
       timeTurnStarted: room.game.timeTurnStarted,
       phase: room.game.phase,
@@ -169,12 +272,23 @@ function asRoomState(room: Room): RoomState {
         team: p.team,
         soldiers: p.soldiers.map((s) => ({ x: s.x, y: s.y, angle: s.angle, alive: s.alive })),
         currentTurnSoldier: p.currentTurnSoldier,
+        hintsUsed: room.game!.matchStatsByClientId.get(p.clientId)?.hintsUsed ?? 0,
+        hintCooldownTurns: hintCooldownTurnsLeft(room, p.clientId),
       })),
       lastShot: room.game.lastShot,
     },
   };
 }
 
+function sendError(
+  ws: WebSocket,
+  code: ErrorCode,
+  message: string,
+  extra?: { details?: ErrorDetails; requestId?: string },
+) {
+  send(ws, { type: "error", code, message, details: extra?.details, requestId: extra?.requestId });
+}
+
 function send(ws: WebSocket, msg: ServerToClientMessage) {
   if (ws.readyState !== WebSocket.OPEN) return;
   try {
@@ -186,7 +300,7 @@ function send(ws: WebSocket, msg: ServerToClientMessage) {
 
 function broadcast(room: Room, msg: ServerToClientMessage) {
   const raw = encodeMessage(msg);
-  for (const ws of room.clients) {
+  for (const ws of [...room.clients, ...room.spectators]) {
     if (ws.readyState !== WebSocket.OPEN) continue;
     try {
       ws.send(raw);
@@ -203,9 +317,15 @@ function getLobbyState(): RoomSummary[] {
       id: room.id,
       name: room.name,
       numPlayers: roomPopulation(room),
+      numSpectators: room.spectators.size,
       gameState: room.gameState,
       preset: room.config.preset,
       difficulty: room.config.difficulty,
+      mode: room.config.mode,
+      perTurnMode: room.config.perTurnMode,
+      mapStyle: room.config.mapStyle,
+      customMapName: room.customMap?.name ?? null,
+      botDifficulties: [...room.bots.values()].map((b) => b.difficulty),
       maxPlayers: room.config.maxPlayers,
     });
   }
@@ -242,11 +362,28 @@ function endGame(room: Room): void {
             .filter((p) => p.team === winnerTeam && playerHasAliveSoldiers(p))
             .map((p) => ({ clientId: p.clientId, name: p.name, team: p.team }));
 
+    const g = room.game;
+    const hintKillPenalty = room.config.hintKillPenalty;
     room.lastGameOver = {
       winnerTeam,
       winners,
       endedAt: now(),
+      seed: g.seed,
+      players: g.players.map((p) => {
+        const ms = g.matchStatsByClientId.get(p.clientId) ?? newMatchStats();
+        return {
+          clientId: p.clientId,
+          name: p.name,
+          team: p.team,
+          kills: ms.kills,
+          hintsUsed: ms.hintsUsed,
+          hintedKills: ms.hintedKills,
+          score: ms.kills - hintKillPenalty * ms.hintedKills,
+        };
+      }),
+      hintKillPenalty,
     };
+    room.lastReplay = { ...room.game.replay, endedAt: room.lastGameOver.endedAt };
   }
 
   // Persist match stats (best-effort, never blocks gameplay).
@@ -254,7 +391,7 @@ function endGame(room: Room): void {
     const g = room.game;
     const winnerIds = new Set(room.lastGameOver.winners.map((w) => w.clientId));
     const players = g.players.map((p) => {
-      const ms = g.matchStatsByClientId.get(p.clientId) ?? { kills: 0, bestMultiKill: 0 };
+      const ms = g.matchStatsByClientId.get(p.clientId) ?? newMatchStats();
       return {
         name: p.name,
         didWin: winnerIds.has(p.clientId),
@@ -281,6 +418,15 @@ function endGame(room: Room): void {
     const c = clientsBySocket.get(ws);
     if (c) c.ready = false;
   }
+
+  // Held seats only keep a match going; left in place they would count against the next one's presets.
+  for (const [sessionToken, seat] of room.heldSeats) {
+    clearTimeout(seat.timer);
+    room.heldSeats.delete(sessionToken);
+    seat.client.roomId = null;
+    seat.client.ready = false;
+    releaseSeat(room, seat.client);
+  }
 }
 
 function surrenderPlayer(room: Room, clientId: string): void {
@@ -290,6 +436,7 @@ function surrenderPlayer(room: Room, clientId: string): void {
   if (!p) return;
 
   for (const s of p.soldiers) s.alive = false;
+  g.replay.events.push({ kind: "surrender", clientId, atMs: now() });
 
   // If they surrendered on their turn, move the turn forward.
   const turnPlayer = g.players[g.currentTurnIndex];
@@ -312,26 +459,46 @@ function leaveRoom(ws: WebSocket) {
 
   if (!room) return;
 
+  if (room.spectators.delete(ws)) {
+    broadcast(room, { type: "room.state", room: getRoomState(room) });
+    broadcastLobbyState();
+    return;
+  }
+
+  room.clients.delete(ws);
+  releaseSeat(room, client);
+}
+
+function firstConnectedClient(room: Room): Client | undefined {
+  return Array.from(room.clients)
+    .map((s) => clientsBySocket.get(s))
+    .find(Boolean);
+}
+
+function releaseSeat(room: Room, client: Client) {
   // If a player leaves mid-game, treat it like surrender so turns don't get stuck.
   if (room.gameState === "in_game" && room.game) {
     surrenderPlayer(room, client.clientId);
   }
 
-  room.clients.delete(ws);
-
-  // Reassign owner if needed (bots cannot own rooms).
+  // Reassign owner if needed (bots cannot own rooms). Prefer someone still connected.
   if (client.clientId === room.ownerClientId) {
-    const nextOwner = Array.from(room.clients)
-      .map((s) => clientsBySocket.get(s))
-      .find(Boolean);
+    const nextOwner = firstConnectedClient(room) ?? room.heldSeats.values().next().value?.client;
     if (nextOwner) room.ownerClientId = nextOwner.clientId;
   }
 
-  if (room.clients.size === 0) {
+  if (room.clients.size === 0 && room.heldSeats.size === 0) {
     if (room.game) {
       for (const t of room.game.timers) clearTimeout(t);
       room.game.timers.clear();
     }
+    // Nobody left to play: drop the spectators back to the lobby too.
+    for (const s of room.spectators) {
+      const c = clientsBySocket.get(s);
+      if (c) c.roomId = null;
+      send(s, { type: "room.state", room: null });
+    }
+    room.spectators.clear();
     roomsById.delete(room.id);
     broadcastLobbyState();
     return;
@@ -341,22 +508,96 @@ function leaveRoom(ws: WebSocket) {
   broadcastLobbyState();
 }
 
-function joinRoom(ws: WebSocket, room: Room) {
+function isSeatedInGame(room: Room, clientId: string): boolean {
+  const p = room.game?.players.find((pl) => pl.clientId === clientId);
+  return room.gameState === "in_game" && !!p && playerHasAliveSoldiers(p);
+}
+
+// Called when a player's socket closes. Mid-match we keep their seat for a grace period so a
+// network blip doesn't forfeit the game; turns keep timing out as usual meanwhile.
+function holdSeat(ws: WebSocket, client: Client): boolean {
+  if (!client.roomId) return false;
+  const room = roomsById.get(client.roomId);
+  if (!room || !room.clients.has(ws) || !isSeatedInGame(room, client.clientId)) return false;
+
+  room.clients.delete(ws);
+  // An away owner can't start the rematch, so hand the room to someone still connected.
+  if (client.clientId === room.ownerClientId) {
+    const nextOwner = firstConnectedClient(room);
+    if (nextOwner) room.ownerClientId = nextOwner.clientId;
+  }
+  const graceMs = GAME_CONSTANTS.RECONNECT_GRACE_MS;
+  const timer = setTimeout(() => {
+    const seat = room.heldSeats.get(client.sessionToken);
+    if (!seat || seat.client !== client) return;
+    room.heldSeats.delete(client.sessionToken);
+    client.roomId = null;
+    client.ready = false;
+    if (!roomsById.has(room.id)) return;
+    releaseSeat(room, client);
+  }, graceMs);
+  room.heldSeats.set(client.sessionToken, { client, expiresAt: now() + graceMs, timer });
+
+  broadcast(room, { type: "room.state", room: getRoomState(room) });
+  broadcastLobbyState();
+  return true;
+}
+
+function resumeSession(ws: WebSocket, sessionToken: string): boolean {
+  // Case 1: the old socket is already gone and its seat is being held.
+  for (const room of roomsById.values()) {
+    const seat = room.heldSeats.get(sessionToken);
+    if (!seat) continue;
+    clearTimeout(seat.timer);
+    room.heldSeats.delete(sessionToken);
+    leaveRoom(ws);
+    clientsBySocket.set(ws, seat.client);
+    room.clients.add(ws);
+    return true;
+  }
+
+  // Case 2: the server hasn't noticed the old socket died yet (half-open TCP). Take it over.
+  for (const [oldWs, c] of clientsBySocket) {
+    if (oldWs === ws || c.sessionToken !== sessionToken) continue;
+    leaveRoom(ws);
+    clientsBySocket.delete(oldWs);
+    clientsBySocket.set(ws, c);
+    const room = c.roomId ? roomsById.get(c.roomId) : undefined;
+    if (room) {
+      if (room.clients.delete(oldWs)) room.clients.add(ws);
+      if (room.spectators.delete(oldWs)) room.spectators.add(ws);
+    }
+    oldWs.terminate();
+    return true;
+  }
+
+  return false;
+}
+
+function joinRoom(ws: WebSocket, room: Room, requestId?: string) {
   const client = clientsBySocket.get(ws);
   if (!client) return;
 
   if (room.gameState === "in_game") {
-    send(ws, { type: "error", message: "Cannot join a room mid-game" });
+    sendError(ws, "game_in_progress", "Cannot join a room mid-game; spectate it instead", { requestId });
+    return;
+  }
+
+  if (room.clients.has(ws)) {
+    send(ws, { type: "room.state", room: getRoomState(room) });
     return;
   }
 
   if (roomPopulation(room) >= room.config.maxPlayers) {
-    send(ws, { type: "error", message: "Room is full" });
+    sendError(ws, "room_full", "Room is full", { requestId });
     return;
   }
 
   if (client.roomId && client.roomId !== room.id) leaveRoom(ws);
 
+  // A spectator of this room can take a free seat while the room is in the lobby.
+  room.spectators.delete(ws);
+
   client.roomId = room.id;
   client.ready = false;
   room.clients.add(ws);
@@ -366,6 +607,25 @@ function joinRoom(ws: WebSocket, room: Room) {
   broadcastLobbyState();
 }
 
+function spectateRoom(ws: WebSocket, room: Room, requestId?: string) {
+  const client = clientsBySocket.get(ws);
+  if (!client) return;
+
+  if (room.clients.has(ws)) {
+    sendError(ws, "already_playing", "Already playing in this room", { requestId });
+    return;
+  }
+
+  if (client.roomId && client.roomId !== room.id) leaveRoom(ws);
+
+  client.roomId = room.id;
+  client.ready = false;
+  room.spectators.add(ws);
+
+  broadcast(room, { type: "room.state", room: getRoomState(room) });
+  broadcastLobbyState();
+}
+
 function distSq(a: { x: number; y: number }, b: { x: number; y: number }) {
   const dx = a.x - b.x;
   const dy = a.y - b.y;
@@ -384,137 +644,6 @@ function distPointToSegmentSq(p: { x: number; y: number }, a: { x: number; y: nu
   return distSq(p, proj);
 }
 
-function pickRelevantObstacles(args: {
-  shooter: { x: number; y: number };
-  target: { x: number; y: number };
-  terrain: TerrainState;
-}): { circles: Array<{ x: number; y: number; r: number }>; holes: Array<{ x: number; y: number; r: number }> } {
-  const { terrain } = args;
-  // Provide full obstacle coordinates so the model can avoid any blocker,
-  // not just those near the straight corridor.
-  return {
-    circles: terrain.circles.map((c) => ({ x: c.x, y: c.y, r: c.r })),
-    holes: terrain.holes.map((h) => ({ x: h.x, y: h.y, r: h.r })),
-  };
-}
-
-function circlesTooClose(a: TerrainCircle, b: TerrainCircle, gap: number): boolean {
-  const minD = a.r + b.r + gap;
-  return distSq(a, b) < minD * minD;
-}
-
-function generateCircles(): TerrainCircle[] {
-  const {
-    PLANE_LENGTH,
-    PLANE_HEIGHT,
-    NUM_CIRCLES_MEAN_VALUE,
-    NUM_CIRCLES_STANDARD_DEVIATION,
-    CIRCLE_MEAN_RADIUS,
-    CIRCLE_STANDARD_DEVIATION,
-  } = GAME_CONSTANTS;
-
-  // Spawn constraints tuned to avoid cramped/overlapping maps.
-  const MIN_CIRCLE_R = 14;
-  const MAX_CIRCLE_R = 90;
-  const MIN_CIRCLE_GAP = 14; // pixels between circle edges
-  const EDGE_PADDING = 8; // keep away from boundary
-  const MAX_TRIES_PER_CIRCLE = 80;
-
-  let target = Math.trunc(randomGaussian() * NUM_CIRCLES_STANDARD_DEVIATION + NUM_CIRCLES_MEAN_VALUE);
-  if (target < 1) target = 1;
-
-  const circles: TerrainCircle[] = [];
-
-  // Place circles with rejection sampling; if the plane is too dense we simply place fewer.
-  for (let i = 0; i < target; i++) {
-    let placed = false;
-
-    for (let attempt = 0; attempt < MAX_TRIES_PER_CIRCLE; attempt++) {
-      let r = Math.trunc(randomGaussian() * CIRCLE_STANDARD_DEVIATION + CIRCLE_MEAN_RADIUS);
-      while (r < MIN_CIRCLE_R) r = Math.trunc(randomGaussian() * CIRCLE_STANDARD_DEVIATION + CIRCLE_MEAN_RADIUS);
-      if (r > MAX_CIRCLE_R) r = MAX_CIRCLE_R;
-
-      const xMin = r + EDGE_PADDING;
-      const xMax = PLANE_LENGTH - r - EDGE_PADDING;
-      const yMin = r + EDGE_PADDING;
-      const yMax = PLANE_HEIGHT - r - EDGE_PADDING;
-
-      if (xMax <= xMin || yMax <= yMin) continue;
-
-      const candidate: TerrainCircle = {
-        x: Math.floor(xMin + Math.random() * (xMax - xMin)),
-        y: Math.floor(yMin + Math.random() * (yMax - yMin)),
-        r,
-      };
-
-      let ok = true;
-      for (const c of circles) {
-        if (circlesTooClose(candidate, c, MIN_CIRCLE_GAP)) {
-          ok = false;
-          break;
-        }
-      }
-
-      if (!ok) continue;
-
-      circles.push(candidate);
-      placed = true;
-      break;
-    }
-
-    if (!placed) {
-      // Stop early if we can't fit more without breaking spacing rules.
-      break;
-    }
-  }
-
-  return circles;
-}
-
-function dist(a: { x: number; y: number }, b: { x: number; y: number }) {
-  const dx = a.x - b.x;
-  const dy = a.y - b.y;
-  return Math.sqrt(dx * dx + dy * dy);
-}
-
-function testSoldier(candidate: { x: number; y: number }, placed: Array<{ x: number; y: number }>, circles: TerrainCircle[]): boolean {
-  const MIN_SOLDIER_SPACING = GAME_CONSTANTS.SOLDIER_SELECTION_RADIUS * 2; // feels natural and avoids stacking
-  const CIRCLE_CLEARANCE = GAME_CONSTANTS.SOLDIER_SELECTION_RADIUS + 10;
-
-  for (const s of placed) {
-    if (distSq(candidate, s) < MIN_SOLDIER_SPACING * MIN_SOLDIER_SPACING) return false;
-  }
-  for (const c of circles) {
-    const minD = c.r + CIRCLE_CLEARANCE;
-    if (distSq(candidate, c) < minD * minD) return false;
-  }
-  return true;
-}
-
-function generateSoldierPositions(players: PlayerGameState[], circles: TerrainCircle[]): void {
-  const { PLANE_LENGTH, PLANE_HEIGHT, SOLDIER_RADIUS } = GAME_CONSTANTS;
-  const placed: Array<{ x: number; y: number }> = [];
-
-  // Keep a buffer near the midline so both teams don't spawn on top of each other.
-  const CENTER_BUFFER = 35;
-  const half = PLANE_LENGTH / 2;
-
-  for (const p of players) {
-    for (let i = 0; i < p.soldiers.length; i++) {
-      let s: { x: number; y: number };
-      do {
-        let x = Math.floor(Math.random() * (PLANE_LENGTH / 2 - CENTER_BUFFER - 2 * SOLDIER_RADIUS)) + SOLDIER_RADIUS;
-        const y = Math.floor(Math.random() * (PLANE_HEIGHT - 2 * SOLDIER_RADIUS)) + SOLDIER_RADIUS;
-        if (p.team === 2) x += half + CENTER_BUFFER;
-        s = { x, y };
-      } while (!testSoldier(s, placed, circles));
-
-      placed.push(s);
-      p.soldiers[i] = { x: s.x, y: s.y, angle: 0, alive: true };
-    }
-  }
-}
-
 function playerHasAliveSoldiers(p: PlayerGameState): boolean {
   return p.soldiers.some((s) => s.alive);
 }
@@ -526,6 +655,8 @@ function advanceTurn(room: Room): void {
 
   g.phase = "playing";
   g.lastShot = undefined;
+  // A per-turn mode pick only lasts for the shot it was made for.
+  g.mode = room.config.mode;
 
   // Find next player with at least one alive soldier.
   for (let step = 0; step < g.players.length; step++) {
@@ -539,6 +670,8 @@ function advanceTurn(room: Room): void {
       p.currentTurnSoldier = (p.currentTurnSoldier + 1) % n;
       if (p.soldiers[p.currentTurnSoldier]!.alive) break;
     }
+    const ms = g.matchStatsByClientId.get(p.clientId);
+    if (ms) ms.turns++;
     break;
   }
 
@@ -566,27 +699,6 @@ function selectNearestEnemyTarget(g: NonNullable<Room["game"]>, shooter: PlayerG
   return best;
 }
 
-function botChooseFunction(mode: GameMode, dxLocal: number, dyLocal: number): string {
-  // Keep it intentionally simple; Gemini (if configured) provides better suggestions.
-  // These functions are interpreted in shooter-local coordinates.
-  if (mode === "normal") {
-    const slope = dxLocal !== 0 ? dyLocal / dxLocal : 0;
-    const m = Math.max(-6, Math.min(6, slope));
-    const mm = Math.round(m * 10) / 10;
-    if (Math.abs(mm) < 0.2) return "0";
-    return `${mm}*x`;
-  }
-  if (mode === "fst_ode") {
-    // dy/dx = k
-    const slope = dxLocal !== 0 ? dyLocal / dxLocal : 0;
-    const k = Math.max(-6, Math.min(6, slope));
-    const kk = Math.round(k * 10) / 10;
-    return `${kk}`;
-  }
-  // snd_ode: y'' = 0 gives straight-ish trajectory depending on angle.
-  return "0";
-}
-
 function maybeScheduleBotTurn(room: Room): void {
   if (!room.game || room.gameState !== "in_game") return;
   const g = room.game;
@@ -617,25 +729,58 @@ function maybeScheduleBotTurn(room: Room): void {
       return;
     }
 
-    const target = selectNearestEnemyTarget(gg, tp);
-    const inverted = tp.team === 2;
-    const dxLocal = inverted ? shooterSoldier.x - (target?.x ?? shooterSoldier.x) : (target?.x ?? shooterSoldier.x) - shooterSoldier.x;
-    const dyLocal = -( (target?.y ?? shooterSoldier.y) - shooterSoldier.y );
+    // The turn is over once anything moves on: a shot, a timeout, the game ending or the bot being removed.
+    const turnStartedAt = gg.timeTurnStarted;
+    const turnChanged = () =>
+      room.game !== gg ||
+      gg.phase !== "playing" ||
+      gg.timeTurnStarted !== turnStartedAt ||
+      gg.players[gg.currentTurnIndex]?.clientId !== tp.clientId ||
+      !shooterSoldier.alive;
+
+    const profile = BOT_PROFILES[room.bots.get(tp.clientId)?.difficulty ?? "medium"];
+    void simPool
+      .run(
+        {
+          kind: "bot.search",
+          input: { mode: gg.mode, terrain: gg.terrain, players: gg.players, currentTurnIndex: gg.currentTurnIndex },
+          options: profile,
+        },
+        { isCancelled: turnChanged },
+      )
+      .catch((e) => {
+        if (!(e instanceof SimJobCancelledError)) console.error("Bot search failed", e);
+        return null;
+      })
+      .then((found) => {
+        if (turnChanged()) return;
+
+        if (gg.mode === "snd_ode") {
+          const EPS = 1e-3;
+          const a = found?.angle ?? (Math.random() - 0.5) * (Math.PI / 2);
+          shooterSoldier.angle = Math.max(-Math.PI / 2 + EPS, Math.min(Math.PI / 2 - EPS, a));
+        }
 
-    if (gg.mode === "snd_ode") {
-      const EPS = 1e-3;
-      const a = (Math.random() - 0.5) * (Math.PI / 2);
-      shooterSoldier.angle = Math.max(-Math.PI / 2 + EPS, Math.min(Math.PI / 2 - EPS, a));
-    }
+        let f = found?.functionString;
+        if (!f) {
+          const target = selectNearestEnemyTarget(gg, tp);
+          const inverted = tp.team === 2;
+          const dxLocal = inverted ? shooterSoldier.x - (target?.x ?? shooterSoldier.x) : (target?.x ?? shooterSoldier.x) - shooterSoldier.x;
+          const dyLocal = -( (target?.y ?? shooterSoldier.y) - shooterSoldier.y );
+          f = botChooseFunction(gg.mode, dxLocal, dyLocal);
+        }
 
-    const f = botChooseFunction(gg.mode, dxLocal, dyLocal);
-    const err = fireShot(room, tp.clientId, f);
-    if (err) {
-      // If bot failed (e.g. malformed), skip its turn.
-      advanceTurn(room);
-      broadcast(room, { type: "room.state", room: getRoomState(room) });
-      broadcastLobbyState();
-    }
+        const err = fireShot(room, tp.clientId, f);
+        if (err) {
+          // If bot failed (e.g. malformed), skip its turn.
+          advanceTurn(room);
+          broadcast(room, { type: "room.state", room: getRoomState(room) });
+          broadcastLobbyState();
+        }
+      })
+      .catch((e) => {
+        console.error("Bot turn failed", e);
+      });
   });
 }
 
@@ -652,7 +797,7 @@ function isGameOver(room: Room): boolean {
   return !(team1 && team2);
 }
 
-function startGame(room: Room): void {
+function startGame(room: Room, seed: number): void {
   // New match: clear last result banner.
   room.lastGameOver = undefined;
 
@@ -705,17 +850,29 @@ function startGame(room: Room): void {
       clientId: p.clientId,
       name: p.name,
       team,
-      soldiers: new Array(1).fill(null).map(() => ({ x: 0, y: 0, angle: 0, alive: true })),
-      currentTurnSoldier: 0,
+      soldiers: new Array(room.config.soldiersPerPlayer).fill(null).map(() => ({ x: 0, y: 0, angle: 0, alive: true })),
+      // advanceTurn moves to the next soldier before a player's turn, so their first turn uses soldier 0.
+      currentTurnSoldier: room.config.soldiersPerPlayer - 1,
     });
   }
 
-  const circles = generateCircles();
-  const terrain: TerrainState = { circles, holes: [] };
-  generateSoldierPositions(players, circles);
+  // Everything random about the map comes from the match seed so a match can be regenerated.
+  const rng = createSeededRng(seed);
+  const terrain = room.customMap
+    ? customMapTerrain(room.customMap)
+    : TERRAIN_GENERATORS[room.config.mapStyle].generate(rng);
+  placeSoldiers(terrain, players, rng, room.customMap ?? undefined);
+
+  if (room.customMapId !== null) {
+    void statsDb.recordMapPlay(room.customMapId).catch((e) => {
+      // eslint-disable-next-line no-console
+      console.warn("[statsDb] recordMapPlay failed:", e);
+    });
+  }
+  const serializedTerrain = serializeTerrain(terrain);
 
   // Pick random start player that has soldiers.
-  let startIdx = Math.floor(Math.random() * players.length);
+  let startIdx = Math.floor(rng() * players.length);
   for (let i = 0; i < players.length; i++) {
     const idx = (startIdx + i) % players.length;
     if (playerHasAliveSoldiers(players[idx]!)) {
@@ -724,33 +881,55 @@ function startGame(room: Room): void {
     }
   }
 
+  const startedAt = now();
+  players[startIdx]!.currentTurnSoldier = 0;
+
   room.gameState = "in_game";
   room.game = {
-    mode: "normal",
+    mode: room.config.mode,
     difficulty: room.config.difficulty,
+    seed,
     terrain,
+    serializedTerrain,
+    craters: [],
     players,
     currentTurnIndex: startIdx,
-    timeTurnStarted: now(),
+    timeTurnStarted: startedAt,
     phase: "playing",
-    matchStatsByClientId: new Map(players.map((p) => [p.clientId, { kills: 0, bestMultiKill: 0 }])),
+    matchStatsByClientId: new Map(
+      players.map((p, i) => [p.clientId, { ...newMatchStats(), turns: i === startIdx ? 1 : 0 }]),
+    ),
+    replay: {
+      seed,
+      startedAt,
+      endedAt: startedAt,
+      mapStyle: room.config.mapStyle,
+      terrain: serializedTerrain,
+      spawns: players.map((p) => ({
+        clientId: p.clientId,
+        name: p.name,
+        team: p.team,
+        soldiers: p.soldiers.map((s) => ({ x: s.x, y: s.y })),
+      })),
+      events: [],
+    },
     timers: new Set<NodeJS.Timeout>(),
   };
 
   maybeScheduleBotTurn(room);
 }
 
-function fireShot(room: Room, byClientId: string, functionStringRaw: string): string | null {
-  if (!room.game) return "Game not started";
+function fireShot(room: Room, byClientId: string, functionStringRaw: string): ShotRejection | null {
+  if (!room.game) return { code: "game_not_started", message: "Game not started" };
   const g = room.game;
 
-  if (g.phase === "animating_shot") return "Shot is already animating";
+  if (g.phase === "animating_shot") return { code: "shot_in_progress", message: "Shot is already animating" };
 
   const turnPlayer = g.players[g.currentTurnIndex];
-  if (!turnPlayer || turnPlayer.clientId !== byClientId) return "Not your turn";
+  if (!turnPlayer || turnPlayer.clientId !== byClientId) return { code: "not_your_turn", message: "Not your turn" };
 
   const functionString = functionStringRaw.trim();
-  if (!functionString) return "Function is required";
+  if (!functionString) return { code: "function_required", message: "Function is required" };
 
   let shot;
   try {
@@ -761,8 +940,12 @@ function fireShot(room: Room, byClientId: string, functionStringRaw: string): st
       players: g.players,
       currentTurnIndex: g.currentTurnIndex,
     });
-  } catch {
-    return "Malformed function";
+  } catch (e) {
+    return {
+      code: "malformed_function",
+      message: "Malformed function",
+      details: e instanceof MalformedFunctionError ? { reason: e.message, span: e.span } : undefined,
+    };
   }
 
   const startedAtMs = now();
@@ -780,12 +963,25 @@ function fireShot(room: Room, byClientId: string, functionStringRaw: string): st
   if (ms) {
     ms.kills += enemyHits.length;
     ms.bestMultiKill = Math.max(ms.bestMultiKill, enemyHits.length);
+    if (ms.lastHintTurn === ms.turns) ms.hintedKills += enemyHits.length;
   }
 
+  g.replay.events.push({
+    kind: "shot",
+    byClientId,
+    soldierIndex: turnPlayer.currentTurnSoldier,
+    functionString,
+    mode: g.mode,
+    angle: turnPlayer.soldiers[turnPlayer.currentTurnSoldier]?.angle ?? 0,
+    turnStartedAtMs: g.timeTurnStarted,
+    firedAtMs: startedAtMs,
+  });
+
   g.phase = "animating_shot";
   g.lastShot = {
     byClientId,
     functionString,
+    mode: g.mode,
     fireAngle: shot.fireAngle,
     startedAtMs,
     functionVelocity,
@@ -812,7 +1008,9 @@ function fireShot(room: Room, byClientId: string, functionStringRaw: string): st
   schedule(room, explodeAtMs - now(), () => {
     const gg = room.game;
     if (!gg || gg.phase !== "animating_shot" || gg.lastShot?.startedAtMs !== startedAtMs) return;
-    gg.terrain.holes.push(shot.explosion);
+    carveTerrain(gg.terrain, shot.explosion);
+    gg.serializedTerrain = serializeTerrain(gg.terrain);
+    gg.craters.push(shot.explosion);
     if (gg.lastShot) gg.lastShot.path = [];
     broadcast(room, { type: "room.state", room: getRoomState(room) });
   });
@@ -838,7 +1036,6 @@ function fireShot(room: Room, byClientId: string, functionStringRaw: string): st
   return null;
 }
 
-
 function schedule(room: Room, delayMs: number, fn: () => void) {
   if (!room.game) return;
   const t = setTimeout(() => {
@@ -853,15 +1050,80 @@ function schedule(room: Room, delayMs: number, fn: () => void) {
   room.game.timers.add(t);
 }
 
+function updateRoomConfig(ws: WebSocket, client: Client, room: Room, incoming: RoomConfigInput, requestId?: string): void {
+  if (room.gameState !== "lobby") {
+    sendError(ws, "game_in_progress", "Cannot change settings mid-game", { requestId });
+    return;
+  }
+  if (!requireRoomOwner(client, room)) {
+    sendError(ws, "not_room_owner", "Only the room owner can change settings", { requestId });
+    return;
+  }
+
+  const next = makeRoomConfig({ ...room.config, ...incoming });
+
+  if (roomPopulation(room) > next.maxPlayers) {
+    sendError(ws, "too_many_players", `Too many players for ${next.preset} (max ${next.maxPlayers})`, {
+      details: { maxPlayers: next.maxPlayers },
+      requestId,
+    });
+    return;
+  }
+
+  room.config = next;
+  broadcast(room, { type: "room.state", room: getRoomState(room) });
+  broadcastLobbyState();
+}
+
+function setRoomMap(ws: WebSocket, client: Client, room: Room, map: CustomMap | null, requestId?: string): void {
+  if (room.gameState !== "lobby") {
+    sendError(ws, "game_in_progress", "Cannot change the map mid-game", { requestId });
+    return;
+  }
+  if (!requireRoomOwner(client, room)) {
+    sendError(ws, "not_room_owner", "Only the room owner can change the map", { requestId });
+    return;
+  }
+
+  room.customMap = map ? { ...map, name: map.name.trim().slice(0, 32) } : null;
+  room.customMapId = null;
+  broadcast(room, { type: "room.state", room: getRoomState(room) });
+  broadcastLobbyState();
+}
+
+// Spectators only watch and chat; everything that would touch the match or the lobby seats is refused.
+const SPECTATOR_BLOCKED_MESSAGES = new Set<ClientToServerMessage["type"]>([
+  "player.ready",
+  "game.start",
+  "game.surrender",
+  "game.setMode",
+  "game.setDifficulty",
+  "room.setConfig",
+  "room.setMap",
+  "room.addBot",
+  "room.removeBot",
+  "hint.request",
+  "game.setAngle",
+  "game.fire",
+]);
+
 function handleMessage(ws: WebSocket, msg: ClientToServerMessage) {
   const client = clientsBySocket.get(ws);
   if (!client) return;
 
+  const fail = (code: ErrorCode, message: string, details?: ErrorDetails) =>
+    sendError(ws, code, message, { details, requestId: msg.requestId });
+
+  if (SPECTATOR_BLOCKED_MESSAGES.has(msg.type) && client.roomId && roomsById.get(client.roomId)?.spectators.has(ws)) {
+    fail("spectator_forbidden", "Spectators cannot do that");
+    return;
+  }
+
   switch (msg.type) {
     case "hello": {
       const name = msg.name.trim().slice(0, 24);
       if (!name) {
-        send(ws, { type: "error", message: "Name is required" });
+        fail("name_required", "Name is required");
         return;
       }
       client.name = name;
@@ -869,13 +1131,37 @@ function handleMessage(ws: WebSocket, msg: ClientToServerMessage) {
       return;
     }
 
+    case "session.resume": {
+      if (!resumeSession(ws, msg.sessionToken)) {
+        fail("session_expired", "Session expired");
+        return;
+      }
+      const resumed = clientsBySocket.get(ws)!;
+      send(ws, {
+        type: "welcome",
+        clientId: resumed.clientId,
+        protocolVersion: PROTOCOL_VERSION,
+        sessionToken: resumed.sessionToken,
+      });
+      send(ws, { type: "lobby.state", rooms: getLobbyState() });
+      const room = resumed.roomId ? roomsById.get(resumed.roomId) : undefined;
+      if (!room) {
+        resumed.roomId = null;
+        send(ws, { type: "room.state", room: null });
+        return;
+      }
+      broadcast(room, { type: "room.state", room: getRoomState(room) });
+      broadcastLobbyState();
+      return;
+    }
+
     case "lobby.listRooms": {
       send(ws, { type: "lobby.state", rooms: getLobbyState() });
       return;
     }
 
     case "stats.get": {
-      const top = Math.max(1, Math.min(50, msg.top ?? 5));
+      const top = Math.max(1, Math.min(GAME_CONSTANTS.MAX_LIST_TOP, msg.top ?? 5));
       if (!statsDb.enabled) {
         send(ws, { type: "stats.me", stats: null });
         send(ws, { type: "stats.leaderboard", entries: [] });
@@ -889,7 +1175,63 @@ function handleMessage(ws: WebSocket, msg: ClientToServerMessage) {
           send(ws, { type: "stats.me", stats: me });
           send(ws, { type: "stats.leaderboard", entries });
         } catch {
-          send(ws, { type: "error", message: "DB error while loading stats" });
+          fail("stats_unavailable", "DB error while loading stats");
+        }
+      })();
+      return;
+    }
+
+    case "maps.list":
+    case "maps.search": {
+      const top = Math.max(1, Math.min(GAME_CONSTANTS.MAX_LIST_TOP, msg.top ?? 20));
+      const query = msg.type === "maps.search" ? msg.query.trim() : undefined;
+      if (!statsDb.enabled) {
+        send(ws, { type: "maps.list", maps: [], query, available: false });
+        return;
+      }
+
+      void (async () => {
+        try {
+          const maps = await statsDb.listMaps({ query, limit: top });
+          send(ws, { type: "maps.list", maps, query, available: true });
+        } catch {
+          fail("maps_unavailable", "DB error while listing maps");
+        }
+      })();
+      return;
+    }
+
+    case "maps.save": {
+      if (!statsDb.enabled) {
+        fail("maps_unavailable", "Saved maps need the server database");
+        return;
+      }
+
+      void (async () => {
+        try {
+          const { summary, editKey } = await statsDb.saveMap(client.name, msg.map);
+          send(ws, { type: "maps.saved", map: summary, editKey });
+        } catch {
+          fail("maps_unavailable", "DB error while saving the map");
+        }
+      })();
+      return;
+    }
+
+    case "maps.delete": {
+      if (!statsDb.enabled) {
+        fail("maps_unavailable", "Saved maps need the server database");
+        return;
+      }
+
+      void (async () => {
+        try {
+          const result = await statsDb.deleteMap(msg.id, msg.editKey);
+          if (result === "not_found") fail("map_not_found", "Map not found");
+          else if (result === "not_author") fail("not_map_author", "Only the edit key handed out when the map was saved can delete it");
+          else send(ws, { type: "maps.deleted", id: msg.id });
+        } catch {
+          fail("maps_unavailable", "DB error while deleting the map");
         }
       })();
       return;
@@ -898,30 +1240,70 @@ function handleMessage(ws: WebSocket, msg: ClientToServerMessage) {
     case "room.create": {
       const roomName = msg.name.trim().slice(0, 32);
       if (!roomName) {
-        send(ws, { type: "error", message: "Room name is required" });
+        fail("name_required", "Room name is required");
         return;
       }
-      const room: Room = {
-        id: nanoid(8),
-        name: roomName,
-        ownerClientId: client.clientId,
-        config: makeRoomConfig(msg.config),
-        clients: new Set<WebSocket>(),
-        bots: new Map(),
-        gameState: "lobby",
+      const create = (saved: { id: number; map: CustomMap } | null) => {
+        const room: Room = {
+          id: nanoid(8),
+          name: roomName,
+          ownerClientId: client.clientId,
+          config: makeRoomConfig(msg.config),
+          customMap: saved?.map ?? null,
+          customMapId: saved?.id ?? null,
+          clients: new Set<WebSocket>(),
+          spectators: new Set<WebSocket>(),
+          heldSeats: new Map(),
+          bots: new Map(),
+          gameState: "lobby",
+        };
+        roomsById.set(room.id, room);
+        joinRoom(ws, room, msg.requestId);
       };
-      roomsById.set(room.id, room);
-      joinRoom(ws, room);
+
+      const mapId = msg.mapId;
+      if (mapId === undefined) {
+        create(null);
+        return;
+      }
+      if (!statsDb.enabled) {
+        fail("maps_unavailable", "Saved maps need the server database");
+        return;
+      }
+      void (async () => {
+        try {
+          const saved = await statsDb.getMap(mapId);
+          if (!saved) {
+            fail("map_not_found", "Map not found");
+            return;
+          }
+          // The socket may have gone away while the map loaded.
+          if (clientsBySocket.get(ws) !== client) return;
+          create({ id: saved.summary.id, map: saved.map });
+        } catch {
+          fail("maps_unavailable", "DB error while loading the map");
+        }
+      })();
       return;
     }
 
     case "room.join": {
       const room = roomsById.get(msg.roomId);
       if (!room) {
-        send(ws, { type: "error", message: "Room not found" });
+        fail("room_not_found", "Room not found");
+        return;
+      }
+      joinRoom(ws, room, msg.requestId);
+      return;
+    }
+
+    case "room.spectate": {
+      const room = roomsById.get(msg.roomId);
+      if (!room) {
+        fail("room_not_found", "Room not found");
         return;
       }
-      joinRoom(ws, room);
+      spectateRoom(ws, room, msg.requestId);
       return;
     }
 
@@ -933,7 +1315,7 @@ function handleMessage(ws: WebSocket, msg: ClientToServerMessage) {
 
     case "player.ready": {
       if (!client.roomId) {
-        send(ws, { type: "error", message: "Not in a room" });
+        fail("not_in_room", "Not in a room");
         return;
       }
       client.ready = !!msg.ready;
@@ -944,27 +1326,32 @@ function handleMessage(ws: WebSocket, msg: ClientToServerMessage) {
 
     case "game.start": {
       if (!client.roomId) {
-        send(ws, { type: "error", message: "Not in a room" });
+        fail("not_in_room", "Not in a room");
         return;
       }
       const room = roomsById.get(client.roomId);
       if (!room) return;
 
       if (room.gameState !== "lobby") {
-        send(ws, { type: "error", message: "Game already started" });
+        fail("game_in_progress", "Game already started");
         return;
       }
 
       const allReady = Array.from(room.clients).every((s) => clientsBySocket.get(s)?.ready);
       if (!allReady) {
-        send(ws, { type: "error", message: "All players must be ready" });
+        fail("players_not_ready", "All players must be ready");
+        return;
+      }
+
+      if (msg.seed != null && (!Number.isInteger(msg.seed) || msg.seed < 0 || msg.seed > 0xffffffff)) {
+        fail("invalid_message", "Seed must be an integer between 0 and 4294967295", { field: "seed" });
         return;
       }
 
       try {
-        startGame(room);
+        startGame(room, msg.seed ?? randomSeed());
       } catch (e) {
-        send(ws, { type: "error", message: e instanceof Error ? e.message : "Unable to start game" });
+        fail("start_failed", e instanceof Error ? e.message : "Unable to start game");
         return;
       }
       broadcast(room, { type: "room.state", room: getRoomState(room) });
@@ -974,12 +1361,12 @@ function handleMessage(ws: WebSocket, msg: ClientToServerMessage) {
 
     case "game.surrender": {
       if (!client.roomId) {
-        send(ws, { type: "error", message: "Not in a room" });
+        fail("not_in_room", "Not in a room");
         return;
       }
       const room = roomsById.get(client.roomId);
       if (!room?.game || room.gameState !== "in_game") {
-        send(ws, { type: "error", message: "Game not started" });
+        fail("game_not_started", "Game not started");
         return;
       }
 
@@ -993,15 +1380,27 @@ function handleMessage(ws: WebSocket, msg: ClientToServerMessage) {
 
     case "game.setMode": {
       if (!client.roomId) {
-        send(ws, { type: "error", message: "Not in a room" });
+        fail("not_in_room", "Not in a room");
         return;
       }
       const room = roomsById.get(client.roomId);
-      if (!room?.game) {
-        send(ws, { type: "error", message: "Game not started" });
+      if (!room) return;
+      if (!room.game) {
+        updateRoomConfig(ws, client, room, { mode: msg.mode }, msg.requestId);
+        return;
+      }
+
+      // Mid-game the mode is fixed, except under the per-turn rule where the shooter picks it for their own shot.
+      const g = room.game;
+      if (!room.config.perTurnMode) {
+        fail("mode_locked", "Mode is set in the lobby for this room");
+        return;
+      }
+      if (g.players[g.currentTurnIndex]?.clientId !== client.clientId || g.phase !== "playing") {
+        fail("not_your_turn", "You can only pick the mode on your own turn");
         return;
       }
-      room.game.mode = msg.mode;
+      g.mode = msg.mode;
       broadcast(room, { type: "room.state", room: getRoomState(room) });
       return;
     }
@@ -1009,60 +1408,51 @@ function handleMessage(ws: WebSocket, msg: ClientToServerMessage) {
     case "game.setDifficulty":
     case "room.setConfig": {
       if (!client.roomId) {
-        send(ws, { type: "error", message: "Not in a room" });
+        fail("not_in_room", "Not in a room");
         return;
       }
       const room = roomsById.get(client.roomId);
       if (!room) return;
-      if (room.gameState !== "lobby") {
-        send(ws, { type: "error", message: "Cannot change settings mid-game" });
-        return;
-      }
-      if (!requireRoomOwner(client, room)) {
-        send(ws, { type: "error", message: "Only the room owner can change settings" });
-        return;
-      }
-
-      const incoming = msg.type === "game.setDifficulty" ? { difficulty: msg.difficulty } : msg.config;
-      const nextPreset = incoming.preset ?? room.config.preset;
-      const nextDifficulty = incoming.difficulty ?? room.config.difficulty;
-      const nextMax = maxPlayersForPreset(nextPreset);
+      const incoming: RoomConfigInput = msg.type === "game.setDifficulty" ? { difficulty: msg.difficulty } : msg.config;
+      updateRoomConfig(ws, client, room, incoming, msg.requestId);
+      return;
+    }
 
-      if (roomPopulation(room) > nextMax) {
-        send(ws, { type: "error", message: `Too many players for ${nextPreset} (max ${nextMax})` });
+    case "room.setMap": {
+      if (!client.roomId) {
+        fail("not_in_room", "Not in a room");
         return;
       }
-
-      room.config = { preset: nextPreset, difficulty: nextDifficulty, maxPlayers: nextMax };
-      broadcast(room, { type: "room.state", room: getRoomState(room) });
-      broadcastLobbyState();
+      const room = roomsById.get(client.roomId);
+      if (!room) return;
+      setRoomMap(ws, client, room, msg.map, msg.requestId);
       return;
     }
 
     case "room.addBot": {
       if (!client.roomId) {
-        send(ws, { type: "error", message: "Not in a room" });
+        fail("not_in_room", "Not in a room");
         return;
       }
       const room = roomsById.get(client.roomId);
       if (!room) return;
       if (room.gameState !== "lobby") {
-        send(ws, { type: "error", message: "Cannot add bots mid-game" });
+        fail("game_in_progress", "Cannot add bots mid-game");
         return;
       }
       if (!requireRoomOwner(client, room)) {
-        send(ws, { type: "error", message: "Only the room owner can add bots" });
+        fail("not_room_owner", "Only the room owner can add bots");
         return;
       }
       if (roomPopulation(room) >= room.config.maxPlayers) {
-        send(ws, { type: "error", message: "Room is full" });
+        fail("room_full", "Room is full");
         return;
       }
 
       const botId = `bot_${nanoid(6)}`;
       const botNameBase = msg.name?.trim().slice(0, 24);
       const botName = botNameBase && botNameBase.length > 0 ? botNameBase : `Bot ${room.bots.size + 1}`;
-      room.bots.set(botId, { clientId: botId, name: botName });
+      room.bots.set(botId, { clientId: botId, name: botName, difficulty: msg.difficulty ?? "medium" });
 
       broadcast(room, { type: "room.state", room: getRoomState(room) });
       broadcastLobbyState();
@@ -1071,21 +1461,21 @@ function handleMessage(ws: WebSocket, msg: ClientToServerMessage) {
 
     case "room.removeBot": {
       if (!client.roomId) {
-        send(ws, { type: "error", message: "Not in a room" });
+        fail("not_in_room", "Not in a room");
         return;
       }
       const room = roomsById.get(client.roomId);
       if (!room) return;
       if (room.gameState !== "lobby") {
-        send(ws, { type: "error", message: "Cannot remove bots mid-game" });
+        fail("game_in_progress", "Cannot remove bots mid-game");
         return;
       }
       if (!requireRoomOwner(client, room)) {
-        send(ws, { type: "error", message: "Only the room owner can remove bots" });
+        fail("not_room_owner", "Only the room owner can remove bots");
         return;
       }
       if (!isBotId(msg.clientId) || !room.bots.has(msg.clientId)) {
-        send(ws, { type: "error", message: "Bot not found" });
+        fail("bot_not_found", "Bot not found");
         return;
       }
       room.bots.delete(msg.clientId);
@@ -1096,18 +1486,18 @@ function handleMessage(ws: WebSocket, msg: ClientToServerMessage) {
 
     case "game.setAngle": {
       if (!client.roomId) {
-        send(ws, { type: "error", message: "Not in a room" });
+        fail("not_in_room", "Not in a room");
         return;
       }
       const room = roomsById.get(client.roomId);
       if (!room?.game) {
-        send(ws, { type: "error", message: "Game not started" });
+        fail("game_not_started", "Game not started");
         return;
       }
       const g = room.game;
       const turnPlayer = g.players[g.currentTurnIndex];
       if (!turnPlayer || turnPlayer.clientId !== client.clientId) {
-        send(ws, { type: "error", message: "Not your turn" });
+        fail("not_your_turn", "Not your turn");
         return;
       }
       const s = turnPlayer.soldiers[turnPlayer.currentTurnSoldier];
@@ -1121,41 +1511,66 @@ function handleMessage(ws: WebSocket, msg: ClientToServerMessage) {
 
     case "game.fire": {
       if (!client.roomId) {
-        send(ws, { type: "error", message: "Not in a room" });
+        fail("not_in_room", "Not in a room");
         return;
       }
       const room = roomsById.get(client.roomId);
       if (!room?.game) {
-        send(ws, { type: "error", message: "Game not started" });
+        fail("game_not_started", "Game not started");
         return;
       }
 
       const err = fireShot(room, client.clientId, msg.functionString);
-      if (err) send(ws, { type: "error", message: err });
+      if (err) fail(err.code, err.message, err.details);
       return;
     }
 
     case "hint.request": {
       if (!client.roomId) {
-        send(ws, { type: "error", message: "Not in a room" });
+        fail("not_in_room", "Not in a room");
         return;
       }
       const room = roomsById.get(client.roomId);
       if (!room?.game || room.gameState !== "in_game") {
-        send(ws, { type: "error", message: "Game not started" });
+        fail("game_not_started", "Game not started");
         return;
       }
       if (room.game.difficulty !== "practice") {
-        send(ws, { type: "error", message: "Hints are disabled in hard mode" });
+        fail("hints_disabled", "Hints are disabled in hard mode");
         return;
       }
 
       const g = room.game;
       const turnPlayer = g.players[g.currentTurnIndex];
       if (!turnPlayer || turnPlayer.clientId !== client.clientId) {
-        send(ws, { type: "error", message: "Hints are only available on your turn" });
+        fail("not_your_turn", "Hints are only available on your turn");
+        return;
+      }
+
+      const ms = g.matchStatsByClientId.get(client.clientId);
+      const { hintsPerMatch } = room.config;
+      if (ms && hintsPerMatch > 0 && ms.hintsUsed >= hintsPerMatch) {
+        fail("hint_limit_reached", `No hints left (${hintsPerMatch} per match)`, { hintsPerMatch });
         return;
       }
+      const turnsLeft = hintCooldownTurnsLeft(room, client.clientId);
+      if (turnsLeft > 0) {
+        fail("hint_cooldown", `Next hint in ${turnsLeft} turn(s)`, { turnsLeft });
+        return;
+      }
+
+      // Counted up front so a second request can't slip past the checks while this one is solving;
+      // given back if no hint reaches the player.
+      const previousHintTurn = ms?.lastHintTurn ?? null;
+      if (ms) {
+        ms.hintsUsed++;
+        ms.lastHintTurn = ms.turns;
+      }
+      const refundHint = () => {
+        if (!ms) return;
+        ms.hintsUsed--;
+        ms.lastHintTurn = previousHintTurn;
+      };
 
       void (async () => {
         // Pause the turn timer while the server waits for the LLM so the player doesn't lose their turn.
@@ -1169,449 +1584,51 @@ function handleMessage(ws: WebSocket, msg: ClientToServerMessage) {
         })();
 
         try {
-          const shooterSoldier = turnPlayer.soldiers[turnPlayer.currentTurnSoldier];
-          if (!shooterSoldier) throw new Error("No shooter soldier");
-          const payload = (msg as any).payload as
-            | { shooter?: { x: number; y: number }; target?: { x: number; y: number }; debug?: boolean }
-            | undefined;
+          const { payload } = msg;
           const debugRequested = payload?.debug === true;
           const debugAlwaysOnError = process.env.AI_DEBUG_ON_ERROR === "1";
-          const debugEvents: any[] = [];
-
-          const inverted = turnPlayer.team === 2;
-
-          const toGameCoordsFromPixels = (p: { x: number; y: number }) => {
-            const { PLANE_LENGTH, PLANE_HEIGHT, PLANE_GAME_LENGTH } = GAME_CONSTANTS;
-            let x = p.x;
-            const y = p.y;
-            if (inverted) x = PLANE_LENGTH - x;
-            return {
-              x: (PLANE_GAME_LENGTH * (x - PLANE_LENGTH / 2)) / PLANE_LENGTH,
-              y: (PLANE_GAME_LENGTH * (-y + PLANE_HEIGHT / 2)) / PLANE_LENGTH,
-            };
-          };
-
-          const shooterGame = toGameCoordsFromPixels({ x: shooterSoldier.x, y: shooterSoldier.y });
-
-          const isAheadTarget = (t: { x: number; y: number }) => {
-            const tg = toGameCoordsFromPixels({ x: t.x, y: t.y });
-            const dx = tg.x - shooterGame.x;
-            return Number.isFinite(dx) && dx > 0.15;
-          };
-
-          const selectNearestEnemyTargetAhead = () => {
-            let best: { x: number; y: number } | null = null;
-            let bestD = Number.POSITIVE_INFINITY;
-            for (const p of g.players) {
-              if (p.team === turnPlayer.team) continue;
-              for (const s of p.soldiers) {
-                if (!s.alive) continue;
-                const cand = { x: s.x, y: s.y };
-                if (!isAheadTarget(cand)) continue;
-                const d = distSq({ x: shooterSoldier.x, y: shooterSoldier.y }, cand);
-                if (d < bestD) {
-                  bestD = d;
-                  best = cand;
-                }
-              }
-            }
-            return best;
-          };
-
-          // Use the payload target if provided; map it to the nearest alive enemy soldier.
-          const desiredTarget = payload?.target;
-          let target: { x: number; y: number } | null = null;
-          if (desiredTarget && Number.isFinite(desiredTarget.x) && Number.isFinite(desiredTarget.y)) {
-            let best = Number.POSITIVE_INFINITY;
-            for (const p of g.players) {
-              if (p.team === turnPlayer.team) continue;
-              for (const s of p.soldiers) {
-                if (!s.alive) continue;
-                const d = distSq({ x: s.x, y: s.y }, { x: desiredTarget.x, y: desiredTarget.y });
-                if (d < best) {
-                  best = d;
-                  const cand = { x: s.x, y: s.y };
-                  if (isAheadTarget(cand)) target = cand;
-                }
-              }
-            }
-          }
-          if (!target) target = selectNearestEnemyTargetAhead() ?? selectNearestEnemyTarget(g, turnPlayer);
-          if (!target) throw new Error("No valid target");
-
-          // If the target is behind relative to the shoot direction, re-pick an ahead target to avoid impossible hints.
-          if (!isAheadTarget(target)) {
-            const ahead = selectNearestEnemyTargetAhead();
-            if (ahead) target = ahead;
-          }
-          const dxLocalPixels = inverted ? shooterSoldier.x - target.x : target.x - shooterSoldier.x;
-          const dyLocalGameSign = -(target.y - shooterSoldier.y);
-
-          const fallbackFn = botChooseFunction(g.mode, dxLocalPixels, dyLocalGameSign);
-
-          const distSq2 = (a: { x: number; y: number }, b: { x: number; y: number }) => {
-            const dx = a.x - b.x;
-            const dy = a.y - b.y;
-            return dx * dx + dy * dy;
-          };
 
-          const targetGame = toGameCoordsFromPixels({ x: target.x, y: target.y });
-          const dxLocalGame = targetGame.x - shooterGame.x;
-          const dyLocalGame = targetGame.y - shooterGame.y;
-
-          const aliveEnemySoldiers = g.players.flatMap((p) =>
-            p.team !== turnPlayer.team ? p.soldiers.filter((s) => s.alive) : [],
-          );
-          const enemySoldiersAliveCount = aliveEnemySoldiers.length;
-          const enemies = aliveEnemySoldiers.map((s) => ({ x: s.x, y: s.y })).slice(0, 24);
-
-          const aliveTeams = Array.from(
-            new Set(g.players.filter((p) => p.soldiers.some((s) => s.alive)).map((p) => p.team)),
-          );
-          const isTwoTeamMatch = aliveTeams.length === 2;
-          const wantsMultiHit = isTwoTeamMatch && enemySoldiersAliveCount >= 2;
-
-          const materializeTemplateFunction = (fnRaw: string) => {
-            let fn = String(fnRaw || "");
-
-            // Some LLMs return template variables (dx, dy, dy/dx). Graphwar does not support these symbols,
-            // so we substitute them using the current local-game target vector.
-            const dx = dxLocalGame;
-            const dy = dyLocalGame;
-            const m = Number.isFinite(dx) && Math.abs(dx) > 1e-12 ? dy / dx : 0;
-
-            // Replace dy/dx first to avoid clobbering "dy" or "dx" replacements.
-            fn = fn.replace(/\bdy\s*\/\s*dx\b/gi, `(${m.toFixed(8)})`);
-            fn = fn.replace(/\bdy\b/gi, `(${dy.toFixed(8)})`);
-            fn = fn.replace(/\bdx\b/gi, `(${dx.toFixed(8)})`);
-
-            // Remove double spaces introduced by substitutions.
-            fn = fn.replace(/\s+/g, " ").trim();
-            return fn;
-          };
-
-          const isShotGoodEnough = (fn: string) => {
-            const shot = simulateShot({
+          // Stop working on a hint nobody can use any more: the turn moved on or the player left.
+          const turnStartedAt = g.timeTurnStarted;
+          const hintCancelled = () =>
+            room.game !== g ||
+            g.players[g.currentTurnIndex]?.clientId !== client.clientId ||
+            g.timeTurnStarted !== turnStartedAt ||
+            client.roomId !== room.id ||
+            ws.readyState !== WebSocket.OPEN;
+
+          const hint = await solveHint(
+            {
               mode: g.mode,
-              functionString: fn,
               terrain: g.terrain,
+              craters: g.craters,
               players: g.players,
               currentTurnIndex: g.currentTurnIndex,
-              maxSteps: 3500,
-            });
-            const r = GAME_CONSTANTS.EXPLOSION_RADIUS;
-
-            // Hard rule for practice hints: do not accept any function whose trajectory hits terrain/bounds.
-            // Our physics uses point sampling per step; to avoid "tunneling" through circles between steps,
-            // also sample along each segment in pixel-space.
-            const pathCollidesTerrain = (() => {
-              const pts = shot.path;
-              if (!pts.length) return true;
-
-              const stepPx = 6; // smaller => stricter collision check
-              const terrain = g.terrain;
-
-              const checkPoint = (p: { x: number; y: number }) => collidePoint(terrain, p);
-
-              for (let i = 0; i < pts.length; i++) {
-                const p = pts[i]!;
-                if (checkPoint(p)) return true;
-
-                const prev = i > 0 ? pts[i - 1]! : null;
-                if (!prev) continue;
-
-                const dx = p.x - prev.x;
-                const dy = p.y - prev.y;
-                const dist = Math.sqrt(dx * dx + dy * dy);
-                const steps = Math.max(1, Math.ceil(dist / stepPx));
-                for (let s = 1; s < steps; s++) {
-                  const t = s / steps;
-                  const sp = { x: prev.x + dx * t, y: prev.y + dy * t };
-                  if (checkPoint(sp)) return true;
-                }
-              }
-              return false;
-            })();
-
-            // Use closest approach along the path, not the final collision point.
-            // This avoids incorrectly accepting shots that collide with a blocker near the target line.
-            let bestD2 = Number.POSITIVE_INFINITY;
-            let bestLocalX = Number.NEGATIVE_INFINITY;
-            for (const pt of shot.path) {
-              const d2 = distSq2(pt, target);
-              if (d2 < bestD2) {
-                bestD2 = d2;
-                const ptGame = toGameCoordsFromPixels(pt);
-                bestLocalX = ptGame.x - shooterGame.x;
-              }
-            }
-
-            // Also require meaningful forward progress in LOCAL GAME X.
-            // Otherwise it can clip a circle early and never really threaten the target.
-            const progressOk =
-              Number.isFinite(dxLocalGame) && dxLocalGame > 1e-6
-                ? bestLocalX >= dxLocalGame * 0.85
-                : true;
-
-            const nearTargetOk = bestD2 <= (r * 1.25) * (r * 1.25);
-
-            // Count unique ENEMY soldier hits (friendly fire doesn't kill).
-            const shooterTeam = turnPlayer.team;
-            const enemyHitCount = (() => {
-              const seen = new Set<string>();
-              for (const h of shot.hits) {
-                const tp = g.players.find((p) => p.clientId === h.targetClientId);
-                if (!tp || tp.team === shooterTeam) continue;
-                seen.add(`${h.targetClientId}:${h.soldierIndex}`);
-              }
-              return seen.size;
-            })();
-
-            const multiHitOk = !wantsMultiHit ? true : enemyHitCount >= 2;
-            return {
-              ok: !pathCollidesTerrain && progressOk && (wantsMultiHit ? multiHitOk : nearTargetOk),
-              shot,
-              lastLocalX: bestLocalX,
-              collided: pathCollidesTerrain,
-              bestD2,
-              enemyHitCount,
-            };
-          };
-
-          const tryAutoParabolaSearch = () => {
-            if (g.mode !== "normal") return null;
-            if (!Number.isFinite(dxLocalGame) || Math.abs(dxLocalGame) < 1e-6) return null;
-
-            const dx = dxLocalGame;
-            const dy = dyLocalGame;
-            const m = dy / dx;
-
-            // Scan curvature magnitudes; negative a lifts (because x*(x-dx) is negative mid-way).
-            const mags = [0.0005, 0.001, 0.002, 0.004, 0.008, 0.012, 0.02, 0.03, 0.05, 0.08];
-            const candidates: number[] = [];
-            for (const mag of mags) {
-              candidates.push(-mag, mag);
-            }
-
-            for (const a of candidates) {
-              const fn = `${m.toFixed(6)}*x + ${a.toFixed(6)}*x*(x-${dx.toFixed(4)})`;
-              try {
-                validateFunction(fn);
-                const res = isShotGoodEnough(fn);
-                if (res.ok) return { fn, m, a };
-              } catch {
-                // ignore
-              }
-            }
-            return null;
-          };
-
-          const validateFunction = (fn: string) => {
-            // Validate parseability quickly using the current authoritative game state.
-            simulateShot({
-              mode: g.mode,
-              functionString: fn,
-              terrain: g.terrain,
-              players: g.players,
-              currentTurnIndex: g.currentTurnIndex,
-              maxSteps: 400,
-            });
-          };
-
-          try {
-            const llmArgs = {
-              mode: g.mode,
-              shooterTeam: turnPlayer.team,
-              shooter: { x: shooterSoldier.x, y: shooterSoldier.y },
-              target: { x: target.x, y: target.y },
-              enemies,
-              objective: wantsMultiHit ? ("multi" as const) : ("single" as const),
-              obstacles: pickRelevantObstacles({
-                shooter: { x: shooterSoldier.x, y: shooterSoldier.y },
-                target: { x: target.x, y: target.y },
-                terrain: g.terrain,
-              }),
-              dxLocalPixels,
-              dyLocalGameSign,
-            } as const;
-
-            const maxAttempts = (() => {
-              const raw = process.env.AI_HINT_MAX_ATTEMPTS;
-              if (!raw) return 10;
-              const n = Number(raw);
-              if (!Number.isFinite(n) || n <= 0) return 10;
-              return Math.max(1, Math.min(10, Math.floor(n)));
-            })();
-
-            let bestCandidate:
-              | {
-                  functionString: string;
-                  explanation?: string;
-                  bestD2: number;
-                  enemyHitCount: number;
-                }
-              | null = null;
-
-            let nextFeedback: string | undefined;
-            for (let attempt = 1; attempt <= maxAttempts; attempt++) {
-              send(ws, { type: "hint.progress", attempt, maxAttempts, status: "thinking" });
-              const hint = await generateLlmHint(
-                {
-                  ...llmArgs,
-                  validationFeedback: nextFeedback,
-                },
-                debugRequested || debugAlwaysOnError ? (ev) => debugEvents.push(ev) : undefined,
-              );
-
-              try {
-                const fn = materializeTemplateFunction(hint.functionString);
-                validateFunction(fn);
-
-                const evalRes = isShotGoodEnough(fn);
-                const minDistPx = Math.sqrt(evalRes.bestD2);
-
-                // Track best candidate by multi-hit first, then distance.
-                if (!evalRes.collided && Number.isFinite(evalRes.bestD2)) {
-                  if (
-                    !bestCandidate ||
-                    evalRes.enemyHitCount > bestCandidate.enemyHitCount ||
-                    (evalRes.enemyHitCount === bestCandidate.enemyHitCount && evalRes.bestD2 < bestCandidate.bestD2)
-                  ) {
-                    bestCandidate = {
-                      functionString: fn,
-                      explanation: hint.explanation,
-                      bestD2: evalRes.bestD2,
-                      enemyHitCount: evalRes.enemyHitCount,
-                    };
-                  }
-                }
-
-                if (evalRes.ok) {
-                  send(ws, { type: "hint.progress", attempt, maxAttempts, status: "done" });
-                  send(ws, {
-                    type: "hint.response",
-                    functionString: fn,
-                    explanation: `${hint.explanation ?? "AI hint."} (attempt ${attempt}/${maxAttempts}, validated no terrain collision)`,
-                    debug: debugRequested ? { events: debugEvents as any } : undefined,
-                  });
-                  return;
-                }
-
-                const lastLocalY = (() => {
-                  const lastGame = toGameCoordsFromPixels(evalRes.shot.lastPoint);
-                  return lastGame.y - shooterGame.y;
-                })();
-
-                // Provide concrete collision/near-miss feedback for the next attempt.
-                nextFeedback =
-                  `Attempt ${attempt}/${maxAttempts} was rejected by the game engine simulation. ` +
-                  (evalRes.collided ? `It collided with terrain/bounds (including between steps). ` : `It did not collide, but missed the target. `) +
-                  (wantsMultiHit ? `Enemy hits achieved: ${evalRes.enemyHitCount}. Try to hit 2+ enemies if possible. ` : ``) +
-                  `Closest distance to target was ~${minDistPx.toFixed(1)}px. ` +
-                  `It stopped at LocalGame approx (x=${evalRes.lastLocalX.toFixed(3)}, y=${lastLocalY.toFixed(3)}), ` +
-                  `but needs to reach (dx=${dxLocalGame.toFixed(3)}, dy=${dyLocalGame.toFixed(3)}). ` +
-                  `Adjust the curve to increase clearance around the blocking circles and reduce miss distance.`;
-
-                debugEvents.push({
-                  type: "error",
-                  message: `Attempt ${attempt} rejected: collided=${String(evalRes.collided)} minDistPx=${minDistPx.toFixed(
-                    1,
-                  )} lastPoint=(${evalRes.shot.lastPoint.x.toFixed(1)},${evalRes.shot.lastPoint.y.toFixed(1)})`,
-                });
-              } catch {
-                // unparsable function; keep retrying
-                nextFeedback =
-                  `Attempt ${attempt}/${maxAttempts} was rejected because the function was not parseable/executable by the game engine. ` +
-                  `Return a simpler valid expression using only supported tokens.`;
-              }
-            }
-
-            // If no perfect shot found, prefer a deterministic local parabola search.
-            const auto = tryAutoParabolaSearch();
-            if (auto) {
-              send(ws, { type: "hint.progress", attempt: maxAttempts, maxAttempts, status: "done" });
-              send(ws, {
-                type: "hint.response",
-                functionString: auto.fn,
-                explanation:
-                  `Auto-adjusted a parabola to clear terrain and still reach the target (LLM failed after ${maxAttempts} attempts; validated no terrain collision).`,
-                debug: debugRequested ? { events: debugEvents as any } : undefined,
-              });
-              return;
-            }
-
-            // Otherwise, if we have a non-colliding best candidate, return it even if it slightly misses.
-            if (bestCandidate) {
-              send(ws, { type: "hint.progress", attempt: maxAttempts, maxAttempts, status: "done" });
-              send(ws, {
-                type: "hint.response",
-                functionString: bestCandidate.functionString,
-                explanation:
-                  bestCandidate.explanation ??
-                  `Best non-colliding AI hint found after ${maxAttempts} attempts (multi-hit=${bestCandidate.enemyHitCount}; may still miss slightly; validated no terrain collision).`,
-                debug: debugRequested ? { events: debugEvents as any } : undefined,
-              });
-              return;
-            }
-
-            // Fall back to a safe baseline.
-            send(ws, {
-              type: "hint.response",
-              functionString: fallbackFn,
-              explanation: `AI couldn't find a safe path after ${maxAttempts} attempts; using a safe fallback.`,
-              debug: debugRequested ? { events: debugEvents as any } : undefined,
-            });
-            return;
-          } catch (e) {
-            // LLM can fail or return malformed output; still give a usable hint.
-            const rawReason = e instanceof Error ? e.message : "AI failed";
-
-            const oneLine = String(rawReason)
-              .replace(/\s+/g, " ")
-              .trim()
-              .slice(0, 400);
-
-            const retryInSeconds = (() => {
-              const m = oneLine.match(/Please retry in\s+([0-9]+(?:\.[0-9]+)?)s/i);
-              if (!m) return null;
-              const n = Number(m[1]);
-              return Number.isFinite(n) && n >= 0 ? Math.ceil(n) : null;
-            })();
-
-            const is429 = /LLM request failed \(429\)/i.test(oneLine) || /\bcode\s*[:=]?\s*429\b/i.test(oneLine);
-            const looksLikeQuota = /quota|rate limit|RESOURCE_EXHAUSTED/i.test(oneLine);
-
-            const reasonForUser = (() => {
-              if (is429 || looksLikeQuota) {
-                const suffix = retryInSeconds ? ` Retry in ~${retryInSeconds}s.` : "";
-                return `AI is rate-limited/quota-limited (HTTP 429).${suffix}`;
-              }
-              return oneLine.length ? oneLine : "AI failed";
-            })();
-
-            // Keep the full error server-side for debugging.
-            console.warn("AI hint failed:", rawReason);
-            send(ws, { type: "hint.progress", attempt: 0, maxAttempts: 0, status: "error" });
-            send(ws, {
-              type: "hint.response",
-              functionString: fallbackFn,
-              explanation: `AI failed (${reasonForUser}); using a safe fallback.`,
-              debug:
-                debugRequested || debugAlwaysOnError
-                  ? {
-                      events: (debugEvents as any[]).concat([
-                        {
-                          type: "error",
-                          message: String(rawReason),
-                        },
-                      ]),
-                    }
-                  : undefined,
-            });
-            return;
-          }
+              requestedTarget: payload?.target,
+            },
+            {
+              provider: hintProvider,
+              sim: simPool,
+              isCancelled: hintCancelled,
+              onProgress: (p) => send(ws, { type: "hint.progress", ...p }),
+              maxAttempts: hintAttemptsFromEnv(),
+              collectDebug: debugRequested || debugAlwaysOnError,
+            },
+          );
+          // Keep the full error server-side for debugging.
+          if (hint.error) console.warn("AI hint failed:", hint.error);
+          const withDebug = debugRequested || (hint.error != null && debugAlwaysOnError);
+          send(ws, {
+            type: "hint.response",
+            functionString: hint.functionString,
+            explanation: hint.explanation,
+            angle: hint.angle,
+            debug: withDebug ? { events: hint.debugEvents } : undefined,
+          });
         } catch (e) {
-          send(ws, { type: "error", message: e instanceof Error ? e.message : "Hint failed" });
+          refundHint();
+          if (e instanceof SimJobCancelledError) return;
+          fail("hint_failed", e instanceof Error ? e.message : "Hint failed");
         } finally {
           // Resume turn timer and give back the paused duration.
           if (pauseTurn.active && room.game && room.game.hintPauseStartedAtMs != null) {
@@ -1628,9 +1645,20 @@ function handleMessage(ws: WebSocket, msg: ClientToServerMessage) {
       return;
     }
 
+    case "replay.get": {
+      if (!client.roomId) {
+        fail("not_in_room", "Not in a room");
+        return;
+      }
+      const room = roomsById.get(client.roomId);
+      if (!room) return;
+      send(ws, { type: "replay.data", replay: room.lastReplay ?? null });
+      return;
+    }
+
     case "chat.send": {
       if (!client.roomId) {
-        send(ws, { type: "error", message: "Not in a room" });
+        fail("not_in_room", "Not in a room");
         return;
       }
       const room = roomsById.get(client.roomId);
@@ -1667,9 +1695,10 @@ setInterval(() => {
 
 wss.on("connection", (ws) => {
   const clientId = nanoid(10);
-  clientsBySocket.set(ws, { clientId, name: "Player", roomId: null, ready: false });
+  const sessionToken = nanoid(24);
+  clientsBySocket.set(ws, { clientId, name: "Player", roomId: null, ready: false, sessionToken });
 
-  send(ws, { type: "welcome", clientId, protocolVersion: PROTOCOL_VERSION });
+  send(ws, { type: "welcome", clientId, protocolVersion: PROTOCOL_VERSION, sessionToken });
   send(ws, { type: "lobby.state", rooms: getLobbyState() });
   send(ws, { type: "room.state", room: null });
 
@@ -1677,15 +1706,28 @@ wss.on("connection", (ws) => {
     const raw = typeof data === "string" ? data : data.toString("utf-8");
     const parsed = safeParseJsonMessage(raw);
     if (!parsed || typeof parsed !== "object" || !("type" in parsed)) {
-      send(ws, { type: "error", message: "Invalid message" });
+      sendError(ws, "invalid_message", "Invalid message");
       return;
     }
 
-    handleMessage(ws, parsed as ClientToServerMessage);
+    const checked = validateClientMessage(parsed);
+    if (!checked.ok) {
+      const requestId = (parsed as { requestId?: unknown }).requestId;
+      sendError(ws, "invalid_message", checked.message, {
+        details: { field: checked.field },
+        requestId: typeof requestId === "string" ? requestId : undefined,
+      });
+      return;
+    }
+
+    handleMessage(ws, checked.msg);
   });
 
   ws.on("close", () => {
-    leaveRoom(ws);
+    const client = clientsBySocket.get(ws);
+    if (!client) return; // socket was taken over by session.resume
+
+    if (!holdSeat(ws, client)) leaveRoom(ws);
     clientsBySocket.delete(ws);
     broadcastLobbyState();
   });
@@ -0,0 +1,281 @@
+import { GAME_CONSTANTS, type PlayerGameState } from "@graphwar/shared";
+
+// Curve families aimed from the shooter at a point, shared by the bot search (botSearch.ts) and the
+// offline hint solver (localHint.ts). Each caller picks the families it tries and, through
+// CandidateTables, how far they bend and how the numbers are written.
+
+// A point relative to the shooter, in shooter-local game units (x forward, y up).
+export type LocalTarget = { dx: number; dy: number };
+
+export type ShotCandidate = {
+  functionString: string;
+  // snd_ode only: the launch angle the shooter must be turned to.
+  angle?: number;
+  // For a player reading the hint; the bot ignores it.
+  explanation: string;
+};
+
+// One member of a family, e.g. "parabola lifted 2 units": the shot it gives when aimed at a point.
+// The bot re-aims the one it picks at a slightly wrong point for its aim error.
+export type Shape = (t: LocalTarget) => ShotCandidate;
+
+// y(X) through the shooter and the target. `X` is the variable as written into the function, e.g.
+// "x", "t" or "(-t)".
+export type Curve = (X: string, t: LocalTarget) => ShotCandidate;
+
+export type CandidateTables = {
+  // Decimals the numbers in generated functions are written with.
+  decimals: number;
+  // Lift of a curve's bulge above (or dip below) the straight line, in game units; small ones first.
+  lifts: readonly number[];
+  // Heights of the sine bumps added to the straight line, in game units.
+  sineAmplitudes: readonly number[];
+  // Powers p of the polar spirals R·(θ/φ)^p.
+  spiralPowers: readonly number[];
+  // Peak radius of the polar petals, as a multiple of the target's distance.
+  petalBulges: readonly number[];
+  // Polar ramps through the target: how much r changes per radian, as a fraction of the target's distance.
+  polarRamps: readonly number[];
+};
+
+// Keeps snd_ode launch angles away from tan() blowing up, like player.setAngle does.
+export const ANGLE_EPS = 1e-3;
+
+function writer(decimals: number) {
+  const num = (v: number) => String(Number(v.toFixed(decimals)));
+  // " + 0.5" / " - 0.5", so generated functions read like something a player would type.
+  const signed = (v: number) => (v < 0 ? ` - ${num(-v)}` : ` + ${num(v)}`);
+  const liftWords = (lift: number) =>
+    lift > 0 ? `bulging ${num(lift)} units above the straight line` : `dipping ${num(-lift)} units below it`;
+  return { num, signed, liftWords };
+}
+
+export function straightCurve(tables: CandidateTables): Curve {
+  const { num } = writer(tables.decimals);
+  return (X, t) => ({
+    functionString: `${num(t.dy / t.dx)}*${X}`,
+    explanation: "Straight line from your soldier to the target.",
+  });
+}
+
+// a·x·(x − dx) vanishes at both ends and reaches −a·dx²/4 half-way.
+export function parabolaCurves(tables: CandidateTables): Curve[] {
+  const { num, signed, liftWords } = writer(tables.decimals);
+  return tables.lifts.map(
+    (lift): Curve =>
+      (X, t) => ({
+        functionString: `${num(t.dy / t.dx)}*${X}${signed((-4 * lift) / (t.dx * t.dx))}*${X}*(${X}${signed(-t.dx)})`,
+        explanation: `Parabola through your soldier and the target, ${liftWords(lift)}.`,
+      }),
+  );
+}
+
+// Two straight segments meeting over (or under) a point part-way along.
+export function cornerCurves(tables: CandidateTables): Curve[] {
+  const { num, signed, liftWords } = writer(tables.decimals);
+  return tables.lifts.flatMap((lift) =>
+    [0.5, 0.3, 0.7].map(
+      (at): Curve =>
+        (X, t) => {
+          const xw = at * t.dx;
+          const yw = (t.dy / t.dx) * xw + lift;
+          const s1 = yw / xw;
+          const s2 = (t.dy - yw) / (t.dx - xw);
+          return {
+            functionString: `${lift > 0 ? "min" : "max"}(${num(s1)}*${X}, ${num(yw)}${signed(s2)}*(${X}${signed(-xw)}))`,
+            explanation: `Two straight segments with a corner ${Math.round(at * 100)}% of the way, ${liftWords(lift)}.`,
+          };
+        },
+    ),
+  );
+}
+
+// A lopsided bulge, high early (third root beyond the target) or late (third root behind the shooter).
+export function cubicCurves(tables: CandidateTables): Curve[] {
+  const { num, signed, liftWords } = writer(tables.decimals);
+  return tables.lifts.flatMap((lift) =>
+    (["early", "late"] as const).map(
+      (where): Curve =>
+        (X, t) => {
+          const root = where === "early" ? 2 * t.dx : -t.dx;
+          let peak = 0;
+          for (let i = 1; i < 20; i++) {
+            const x = (i / 20) * t.dx;
+            peak = Math.max(peak, Math.abs(x * (x - t.dx) * (x - root)));
+          }
+          // Sign chosen so the bulge has the sign of lift (x·(x − dx) is negative inside, (x − root) has a fixed sign).
+          const sign = root > t.dx ? 1 : -1;
+          const b = (sign * lift) / peak;
+          return {
+            functionString: `${num(t.dy / t.dx)}*${X}${signed(b)}*${X}*(${X}${signed(-t.dx)})*(${X}${signed(-root)})`,
+            explanation: `Cubic through your soldier and the target, ${liftWords(lift)} and peaking ${where}.`,
+          };
+        },
+    ),
+  );
+}
+
+// The straight line plus 1 to 3 half-waves of a sine that vanishes at both ends.
+export function sineCurves(tables: CandidateTables): Curve[] {
+  const { num, signed } = writer(tables.decimals);
+  return [1, 2, 3].flatMap((k) =>
+    tables.sineAmplitudes.map(
+      (amp): Curve =>
+        (X, t) => ({
+          functionString: `${num(t.dy / t.dx)}*${X}${signed(amp)}*sin(${num((k * Math.PI) / t.dx)}*${X})`,
+          explanation: `Straight line plus a sine wave (${k} half-wave${k > 1 ? "s" : ""}, amplitude ${num(Math.abs(amp))}).`,
+        }),
+    ),
+  );
+}
+
+// normal mode: y = f(x).
+export function graphShapes(curves: Curve[]): Shape[] {
+  return curves.map((c): Shape => (u) => c("x", u));
+}
+
+// parametric: the straight line along t, then `curves` traced with x = t (or x = −t behind the shooter).
+export function parametricShapes(tables: CandidateTables, curves: Curve[]): Shape[] {
+  const { num } = writer(tables.decimals);
+  const straight: Shape = (u) => {
+    const len = Math.hypot(u.dx, u.dy);
+    return {
+      functionString: `${num(u.dx / len)}*t; ${num(u.dy / len)}*t`,
+      explanation: "Straight line from your soldier to the target.",
+    };
+  };
+  return [
+    straight,
+    ...curves.map((c): Shape => (u) => {
+      const shot = c(u.dx > 0 ? "t" : "(-t)", u);
+      return { ...shot, functionString: `${u.dx > 0 ? "t" : "-t"}; ${shot.functionString}` };
+    }),
+  ];
+}
+
+// fst_ode: the slopes of the straight line, the parabolas and the sines, so the solution is the same curve.
+export function slopeShapes(tables: CandidateTables): Shape[] {
+  const { num, signed, liftWords } = writer(tables.decimals);
+  return [
+    (t) => ({ functionString: num(t.dy / t.dx), explanation: "Constant slope: a straight line to the target." }),
+    ...tables.lifts.map((lift): Shape => (t) => {
+      const a = (-4 * lift) / (t.dx * t.dx);
+      return {
+        functionString: `${num(t.dy / t.dx)}${signed(a)}*(2*x${signed(-t.dx)})`,
+        explanation: `Slope of a parabola through the target, ${liftWords(lift)}.`,
+      };
+    }),
+    ...[1, 2, 3].flatMap((k) =>
+      tables.sineAmplitudes.map((amp): Shape => (t) => {
+        const w = (k * Math.PI) / t.dx;
+        return {
+          functionString: `${num(t.dy / t.dx)}${signed(amp * w)}*cos(${num(w)}*x)`,
+          explanation: `Slope of a line plus a sine wave (${k} half-wave${k > 1 ? "s" : ""}, amplitude ${num(Math.abs(amp))}).`,
+        };
+      }),
+    ),
+  ];
+}
+
+// snd_ode: launched at θ, y'' = c1 + c2·x gives y = tan θ·x + c1·x²/2 + c2·x³/6; c1 is solved so the
+// curve ends on the target.
+function sndOdeC1(t: LocalTarget, angle: number, c2: number): number {
+  return (2 * (t.dy - Math.tan(angle) * t.dx - (c2 * t.dx ** 3) / 6)) / (t.dx * t.dx);
+}
+
+// snd_ode from the shooter's current angle: constant y'', then y'' changing linearly by each lift.
+export function currentAngleShapes(tables: CandidateTables, currentAngle: number): Shape[] {
+  const { num, signed } = writer(tables.decimals);
+  return [
+    (t) => ({
+      functionString: num(sndOdeC1(t, currentAngle, 0)),
+      explanation: "Constant y'' from your current angle: a parabola that lands on the target.",
+    }),
+    ...tables.lifts.map((lift): Shape => (t) => {
+      const c2 = (6 * lift) / t.dx ** 3;
+      return {
+        functionString: `${num(sndOdeC1(t, currentAngle, c2))}${signed(c2)}*x`,
+        explanation: "y'' changing linearly with x, from your current angle, so the curve bends late or early.",
+      };
+    }),
+  ];
+}
+
+// snd_ode launched `offset` radians off the straight line to the target, with a constant y''.
+export function launchAngleShape(tables: CandidateTables, offset: number): Shape {
+  const { num } = writer(tables.decimals);
+  return (t) => {
+    const limit = Math.PI / 2 - ANGLE_EPS;
+    const angle = Math.max(-limit, Math.min(limit, Math.atan(t.dy / t.dx) + offset));
+    return {
+      functionString: num(sndOdeC1(t, angle, 0)),
+      explanation: `Set the launch angle to ${num(angle)} rad, then a constant y'' lands on the target.`,
+      angle,
+    };
+  };
+}
+
+// θ runs anticlockwise from the forward direction, so targets below the forward line sit at φ in (π, 2π).
+function polarTarget(t: LocalTarget): { R: number; phi: number } {
+  const phi = Math.atan2(t.dy, t.dx);
+  return { R: Math.hypot(t.dx, t.dy), phi: phi < 0 ? phi + 2 * Math.PI : phi };
+}
+
+// polar: curves out of the shooter reaching the target's distance exactly at φ (or a lap later), then
+// the circle through the target and ramps crossing it.
+export function polarShapes(tables: CandidateTables, t: LocalTarget): Shape[] {
+  const { num, signed } = writer(tables.decimals);
+  const { phi } = polarTarget(t);
+  const deg = (u: LocalTarget) => Math.round((polarTarget(u).phi * 180) / Math.PI);
+  const shapes: Shape[] = [];
+  for (const lap of [0, 2 * Math.PI]) {
+    if (phi + lap < 1e-3 || phi + lap > GAME_CONSTANTS.POLAR_THETA_MAX) continue;
+    const at = (u: LocalTarget) => Math.max(1e-3, polarTarget(u).phi + lap);
+    const when = (u: LocalTarget) => `${deg(u)}°${lap > 0 ? " on the second turn" : ""}`;
+    shapes.push((u) => ({
+      functionString: `${num(polarTarget(u).R / at(u))}*theta`,
+      explanation: `Spiral out of your soldier reaching the target's distance at ${when(u)}.`,
+    }));
+    for (const p of tables.spiralPowers) {
+      shapes.push((u) => ({
+        functionString: `${num(polarTarget(u).R)}*(theta/${num(at(u))})^${p}`,
+        explanation: `Spiral (power ${p}) reaching the target's distance at ${when(u)}.`,
+      }));
+    }
+    for (const bulge of tables.petalBulges) {
+      // Peaks at bulge·R, so it passes R on the way out before the target; cheap to try anyway.
+      const w = Math.PI - Math.asin(1 / bulge);
+      shapes.push((u) => ({
+        functionString: `${num(bulge * polarTarget(u).R)}*sin(${num(w / at(u))}*theta)`,
+        explanation: `Petal reaching ${bulge} times the target's distance and coming back in at ${when(u)}.`,
+      }));
+    }
+  }
+  shapes.push((u) => ({
+    functionString: num(polarTarget(u).R),
+    explanation: "Circle around your soldier through the target.",
+  }));
+  for (const frac of tables.polarRamps) {
+    shapes.push((u) => {
+      const { R, phi: at } = polarTarget(u);
+      return {
+        functionString: `${num(R)}${signed((frac * R) / Math.max(at, 0.5))}*(theta${signed(-at)})`,
+        explanation: `Spiral winding ${frac > 0 ? "outwards" : "inwards"} through the target at ${deg(u)}°.`,
+      };
+    });
+  }
+  return shapes;
+}
+
+// The snd_ode launch angle lives on the soldier, so candidates are tried on a copy of the shooter.
+export function withShooterAngle(
+  players: PlayerGameState[],
+  currentTurnIndex: number,
+  angle: number,
+): PlayerGameState[] {
+  return players.map((p, i) =>
+    i !== currentTurnIndex
+      ? p
+      : { ...p, soldiers: p.soldiers.map((s, j) => (j === p.currentTurnSoldier ? { ...s, angle } : s)) },
+  );
+}
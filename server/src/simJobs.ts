@@ -0,0 +1,41 @@
+import { searchBotShot, type BotSearchInput, type BotSearchOptions, type BotShot } from "./botSearch";
+import { checkHintShot, searchHintParabola, type HintCheck, type HintCheckContext } from "./hintCheck";
+import { solveLocalHint, type LocalHint } from "./localHint";
+
+// Simulation-heavy work that runs in the worker pool (see simPool.ts). Jobs and results cross the
+// thread boundary by structured clone, so they hold plain data only: game snapshots, never live rooms.
+
+export type SimJob =
+  | { kind: "bot.search"; input: BotSearchInput; options: Omit<BotSearchOptions, "isCancelled"> }
+  | { kind: "hint.check"; ctx: HintCheckContext; functionString: string }
+  | { kind: "hint.parabola"; ctx: HintCheckContext }
+  | { kind: "hint.solve"; ctx: HintCheckContext };
+
+export type SimJobResults = {
+  "bot.search": BotShot | null;
+  // null when the function doesn't parse.
+  "hint.check": HintCheck | null;
+  "hint.parabola": { fn: string; m: number; a: number } | null;
+  "hint.solve": LocalHint | null;
+};
+
+export type SimJobKind = SimJob["kind"];
+
+// Searches poll `isCancelled` between candidates (bot.search resolves null, the hint searches throw
+// SimJobCancelledError); hint.check is a single simulation and runs to the end.
+export async function runSimJob(job: SimJob, isCancelled: () => boolean): Promise<SimJobResults[SimJobKind]> {
+  switch (job.kind) {
+    case "bot.search":
+      return searchBotShot(job.input, { ...job.options, isCancelled });
+    case "hint.check":
+      try {
+        return checkHintShot(job.ctx, job.functionString);
+      } catch {
+        return null;
+      }
+    case "hint.parabola":
+      return searchHintParabola(job.ctx, isCancelled);
+    case "hint.solve":
+      return solveLocalHint(job.ctx, isCancelled);
+  }
+}
@@ -0,0 +1,172 @@
+import os from "node:os";
+import { Worker } from "node:worker_threads";
+import type { SimJob, SimJobKind, SimJobResults } from "./simJobs";
+
+// A small pool of worker threads for simulation-heavy work (bot search, hint validation), so a busy
+// room never stalls the timers and sockets of every other room on the main thread.
+
+export type SimWorkerRequest = { type: "run"; id: number; job: SimJob } | { type: "cancel"; id: number };
+
+export type SimWorkerReply = { id: number; ok: true; result: unknown } | { id: number; ok: false; error: string };
+
+export class SimJobCancelledError extends Error {
+  constructor() {
+    super("Simulation job cancelled");
+    this.name = "SimJobCancelledError";
+  }
+}
+
+export type SimRunOptions = {
+  // Polled while the job waits or runs, e.g. "the turn is over" or "the player left".
+  // Once true the job's promise rejects with SimJobCancelledError.
+  isCancelled?: () => boolean;
+};
+
+type PendingJob = {
+  id: number;
+  job: SimJob;
+  isCancelled?: () => boolean;
+  resolve: (result: unknown) => void;
+  reject: (e: Error) => void;
+};
+
+type PoolWorker = {
+  worker: Worker;
+  // The job this worker is running, if any. A cancelled job keeps the worker busy until it replies.
+  current: PendingJob | null;
+  cancelled: boolean;
+};
+
+const CANCEL_POLL_MS = 25;
+
+// Under tsx (dev and `npm start`) the worker is a .ts file, and Node only loads the tsx hooks into a
+// worker that registers them itself before importing it.
+function spawnWorker(): Worker {
+  const ext = import.meta.url.endsWith(".ts") ? ".ts" : ".js";
+  const url = new URL(`./simWorker${ext}`, import.meta.url);
+  if (ext === ".js") return new Worker(url);
+  return new Worker(
+    `import("tsx/esm/api").then(({ register }) => { register(); return import(${JSON.stringify(url.href)}); });`,
+    { eval: true },
+  );
+}
+
+export function createSimPool(size: number) {
+  const workers: PoolWorker[] = [];
+  const queue: PendingJob[] = [];
+  let nextId = 1;
+  let pollTimer: NodeJS.Timeout | null = null;
+
+  function addWorker(): PoolWorker {
+    const w: PoolWorker = { worker: spawnWorker(), current: null, cancelled: false };
+    // Only busy workers keep the process alive, so scripts (benches, checks) can exit when done.
+    w.worker.unref();
+
+    w.worker.on("message", (reply: SimWorkerReply) => {
+      const job = w.current;
+      w.current = null;
+      w.worker.unref();
+      if (job && job.id === reply.id && !w.cancelled) {
+        if (reply.ok) job.resolve(reply.result);
+        else job.reject(new Error(reply.error));
+      }
+      w.cancelled = false;
+      pump();
+    });
+
+    const replace = (e: Error) => {
+      const job = w.current;
+      w.current = null;
+      if (job && !w.cancelled) job.reject(e);
+      const i = workers.indexOf(w);
+      if (i >= 0) workers.splice(i, 1);
+      pump();
+    };
+    w.worker.on("error", (e) => {
+      console.error("[simPool] worker failed", e);
+      replace(e);
+    });
+    w.worker.on("exit", (code) => replace(new Error(`Simulation worker exited with code ${code}`)));
+
+    workers.push(w);
+    return w;
+  }
+
+  function pump(): void {
+    while (queue.length > 0) {
+      const idle = workers.find((w) => !w.current) ?? (workers.length < size ? addWorker() : null);
+      if (!idle) break;
+      const job = queue.shift()!;
+      idle.current = job;
+      idle.cancelled = false;
+      idle.worker.ref();
+      idle.worker.postMessage({ type: "run", id: job.id, job: job.job } satisfies SimWorkerRequest);
+    }
+    updatePolling();
+  }
+
+  // Cancellation is checked on the main thread, where rooms live, and forwarded to the worker.
+  function pollCancelled(): void {
+    for (let i = queue.length - 1; i >= 0; i--) {
+      const job = queue[i]!;
+      if (job.isCancelled?.()) {
+        queue.splice(i, 1);
+        job.reject(new SimJobCancelledError());
+      }
+    }
+    for (const w of workers) {
+      if (!w.current || w.cancelled || !w.current.isCancelled?.()) continue;
+      w.cancelled = true;
+      w.worker.postMessage({ type: "cancel", id: w.current.id } satisfies SimWorkerRequest);
+      w.current.reject(new SimJobCancelledError());
+    }
+    updatePolling();
+  }
+
+  function updatePolling(): void {
+    const watching =
+      queue.some((j) => j.isCancelled) || workers.some((w) => w.current?.isCancelled && !w.cancelled);
+    if (watching && !pollTimer) {
+      pollTimer = setInterval(pollCancelled, CANCEL_POLL_MS);
+    } else if (!watching && pollTimer) {
+      clearInterval(pollTimer);
+      pollTimer = null;
+    }
+  }
+
+  function run<K extends SimJobKind>(
+    job: Extract<SimJob, { kind: K }>,
+    opts: SimRunOptions = {},
+  ): Promise<SimJobResults[K]> {
+    if (opts.isCancelled?.()) return Promise.reject(new SimJobCancelledError());
+    return new Promise((resolve, reject) => {
+      queue.push({
+        id: nextId++,
+        job,
+        isCancelled: opts.isCancelled,
+        resolve: resolve as (result: unknown) => void,
+        reject,
+      });
+      pump();
+    });
+  }
+
+  async function close(): Promise<void> {
+    for (const job of queue.splice(0)) job.reject(new SimJobCancelledError());
+    const all = workers.splice(0);
+    await Promise.all(all.map((w) => w.worker.terminate()));
+    updatePolling();
+  }
+
+  return { size, run, close };
+}
+
+export type SimPool = ReturnType<typeof createSimPool>;
+
+// SIM_WORKERS threads, by default one per spare core (at least one, at most four).
+export function createSimPoolFromEnv(): SimPool {
+  const raw = Number(process.env.SIM_WORKERS);
+  const fallback = Math.max(1, Math.min(4, os.availableParallelism() - 1));
+  const size = Number.isFinite(raw) && raw >= 1 ? Math.min(16, Math.floor(raw)) : fallback;
+  return createSimPool(size);
+}
@@ -0,0 +1,28 @@
+import { parentPort } from "node:worker_threads";
+import { runSimJob } from "./simJobs";
+import type { SimWorkerReply, SimWorkerRequest } from "./simPool";
+
+// Entry point of each simulation worker thread; simPool.ts hands it one job at a time.
+
+const port = parentPort;
+if (!port) throw new Error("simWorker must run in a worker thread");
+
+const cancelled = new Set<number>();
+
+port.on("message", (msg: SimWorkerRequest) => {
+  if (msg.type === "cancel") {
+    cancelled.add(msg.id);
+    return;
+  }
+
+  const { id, job } = msg;
+  void runSimJob(job, () => cancelled.has(id))
+    .then(
+      (result): SimWorkerReply => ({ id, ok: true, result }),
+      (e): SimWorkerReply => ({ id, ok: false, error: e instanceof Error ? e.message : String(e) }),
+    )
+    .then((reply) => {
+      cancelled.delete(id);
+      port.postMessage(reply);
+    });
+});
@@ -1,5 +1,7 @@
+import { createHash } from "node:crypto";
 import mariadb from "mariadb";
-import type { PlayerStats } from "@graphwar/shared";
+import { nanoid } from "nanoid";
+import { exportCustomMap, importCustomMap, type CustomMap, type PlayerStats, type SavedMapSummary } from "@graphwar/shared";
 
 type RawRow = {
   name: string;
@@ -24,6 +26,34 @@ function toStats(row: RawRow): PlayerStats {
   };
 }
 
+type RawMapRow = {
+  id: number | bigint;
+  author: string;
+  name: string;
+  play_count: number;
+  updated_at: Date;
+  map_json?: string;
+};
+
+function toMapSummary(row: RawMapRow): SavedMapSummary {
+  return {
+    id: Number(row.id),
+    name: String(row.name),
+    author: String(row.author),
+    playCount: Number(row.play_count ?? 0),
+    updatedAt: new Date(row.updated_at).getTime(),
+  };
+}
+
+function hashEditKey(editKey: string): string {
+  return createHash("sha256").update(editKey).digest("hex");
+}
+
+// LIKE treats % and _ as wildcards; search terms are plain text.
+function likePattern(query: string): string {
+  return `%${query.replace(/[\\%_]/g, (c) => `\\${c}`)}%`;
+}
+
 export function createStatsDbFromEnv() {
   const host = process.env.DB_HOST;
   const user = process.env.DB_USER;
@@ -63,6 +93,20 @@ export function createStatsDbFromEnv() {
           UNIQUE KEY uq_player_name (name)
         )
       `);
+      await conn.query(`
+        CREATE TABLE IF NOT EXISTS maps (
+          id BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+          author VARCHAR(64) NOT NULL,
+          name VARCHAR(64) NOT NULL,
+          map_json MEDIUMTEXT NOT NULL,
+          edit_key_hash CHAR(64) NOT NULL,
+          play_count INT NOT NULL DEFAULT 0,
+          created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+          updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+          PRIMARY KEY (id),
+          KEY idx_map_play_count (play_count)
+        )
+      `);
     } finally {
       conn.release();
     }
@@ -171,11 +215,115 @@ export function createStatsDbFromEnv() {
     }
   }
 
+  // Most played first; `query` matches map name or author.
+  async function listMaps(args: { query?: string; limit: number }): Promise<SavedMapSummary[]> {
+    if (!pool) return [];
+
+    const conn = await pool.getConnection();
+    try {
+      const query = args.query?.trim();
+      const rows = (await conn.query(
+        `
+        SELECT id, author, name, play_count, updated_at
+        FROM maps
+        ${query ? "WHERE name LIKE ? OR author LIKE ?" : ""}
+        ORDER BY play_count DESC, updated_at DESC, id DESC
+        LIMIT ?
+        `,
+        query ? [likePattern(query), likePattern(query), args.limit] : [args.limit],
+      )) as RawMapRow[];
+
+      return (rows ?? []).map(toMapSummary);
+    } finally {
+      conn.release();
+    }
+  }
+
+  // Rows are re-validated on the way out, so a hand-edited row can't reach a room.
+  async function getMap(id: number): Promise<{ summary: SavedMapSummary; map: CustomMap } | null> {
+    if (!pool) return null;
+
+    const conn = await pool.getConnection();
+    try {
+      const rows = (await conn.query(
+        "SELECT id, author, name, play_count, updated_at, map_json FROM maps WHERE id = ? LIMIT 1",
+        [id],
+      )) as RawMapRow[];
+
+      const row = rows?.[0];
+      if (!row) return null;
+      const parsed = importCustomMap(String(row.map_json ?? ""));
+      if (!parsed.ok) return null;
+      return { summary: toMapSummary(row), map: parsed.map };
+    } finally {
+      conn.release();
+    }
+  }
+
+  // Every save is a new map. Player names can be taken by anyone, so the map belongs to whoever holds
+  // the returned edit key; only its hash is stored.
+  async function saveMap(author: string, map: CustomMap): Promise<{ summary: SavedMapSummary; editKey: string }> {
+    if (!pool) throw new Error("Database disabled");
+
+    const conn = await pool.getConnection();
+    try {
+      const authorName = author.trim().slice(0, 64);
+      const mapName = map.name.trim().slice(0, 64);
+      const editKey = nanoid(32);
+      const result = (await conn.query("INSERT INTO maps (author, name, map_json, edit_key_hash) VALUES (?, ?, ?, ?)", [
+        authorName,
+        mapName,
+        exportCustomMap({ ...map, name: mapName }),
+        hashEditKey(editKey),
+      ])) as { insertId: number | bigint };
+      const rows = (await conn.query("SELECT id, author, name, play_count, updated_at FROM maps WHERE id = ? LIMIT 1", [
+        result.insertId,
+      ])) as RawMapRow[];
+      return { summary: toMapSummary(rows[0]!), editKey };
+    } finally {
+      conn.release();
+    }
+  }
+
+  // Needs the edit key saveMap handed out for this map.
+  async function deleteMap(id: number, editKey: string): Promise<"deleted" | "not_found" | "not_author"> {
+    if (!pool) return "not_found";
+
+    const conn = await pool.getConnection();
+    try {
+      const rows = (await conn.query("SELECT edit_key_hash FROM maps WHERE id = ? LIMIT 1", [id])) as Array<{
+        edit_key_hash: string;
+      }>;
+      if (!rows?.length) return "not_found";
+      if (rows[0]!.edit_key_hash !== hashEditKey(editKey)) return "not_author";
+      await conn.query("DELETE FROM maps WHERE id = ?", [id]);
+      return "deleted";
+    } finally {
+      conn.release();
+    }
+  }
+
+  async function recordMapPlay(id: number): Promise<void> {
+    if (!pool) return;
+
+    const conn = await pool.getConnection();
+    try {
+      await conn.query("UPDATE maps SET play_count = play_count + 1 WHERE id = ?", [id]);
+    } finally {
+      conn.release();
+    }
+  }
+
   return {
     enabled,
     init,
     getPlayer,
     getLeaderboard,
     recordMatch,
+    listMaps,
+    getMap,
+    saveMap,
+    deleteMap,
+    recordMapPlay,
   };
 }
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { emptyCustomMap, validateClientMessage } from "@graphwar/shared";
+
+// The field and message of a rejected message; fails the test if it was accepted.
+function rejection(value: unknown): { field: string; message: string } {
+  const checked = validateClientMessage(value);
+  if (checked.ok) throw new Error(`expected ${JSON.stringify(value)} to be rejected`);
+  return { field: checked.field, message: checked.message };
+}
+
+describe("validateClientMessage", () => {
+  it("accepts a well-formed message", () => {
+    expect(validateClientMessage({ type: "chat.send", text: "gg", requestId: "r1" })).toEqual({
+      ok: true,
+      msg: { type: "chat.send", text: "gg", requestId: "r1" },
+    });
+  });
+
+  it("rejects a missing or non-string chat text", () => {
+    expect(rejection({ type: "chat.send" })).toEqual({
+      field: "text",
+      message: "Invalid chat.send: text must be a string",
+    });
+    expect(rejection({ type: "chat.send", text: 42 }).field).toBe("text");
+  });
+
+  it("rejects a string angle and one outside -π..π", () => {
+    expect(rejection({ type: "game.setAngle", angle: "0.5" })).toEqual({
+      field: "angle",
+      message: "Invalid game.setAngle: angle must be a finite number",
+    });
+    expect(rejection({ type: "game.setAngle", angle: 4 }).message).toMatch(/angle must be between/);
+  });
+
+  it("reports the full path of a bad nested config field", () => {
+    expect(rejection({ type: "room.setConfig", config: { hintsPerMatch: 1.5 } })).toEqual({
+      field: "config.hintsPerMatch",
+      message: "Invalid room.setConfig: config.hintsPerMatch must be an integer",
+    });
+  });
+
+  it("reports the index of a bad spawn zone", () => {
+    const map = emptyCustomMap("Zones");
+    map.spawnZones.push({ team: 1, x: 700, y: 10, w: 100, h: 50 });
+    const { field, message } = rejection({ type: "room.setMap", map });
+    expect(field).toBe("map.spawnZones[0].w");
+    expect(message).toMatch(/^Invalid room\.setMap: map\.spawnZones\[0\]\.w must be between/);
+  });
+
+  it("rejects an unknown type", () => {
+    expect(rejection({ type: "room.explode" })).toEqual({
+      field: "type",
+      message: "Unknown message type: room.explode",
+    });
+  });
+
+  it("rejects a bad requestId", () => {
+    expect(rejection({ type: "lobby.listRooms", requestId: 7 })).toEqual({
+      field: "requestId",
+      message: "Invalid lobby.listRooms: requestId must be a string",
+    });
+    expect(rejection({ type: "lobby.listRooms", requestId: "r".repeat(65) }).field).toBe("requestId");
+  });
+});
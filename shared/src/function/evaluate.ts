@@ -1,5 +1,14 @@
 import { type FunctionToken, numParams } from "./tokens";
 
+// mod(a, b) with the sign of b (floored), so mod(-1, 3) == 2 like on most calculators.
+export function floorMod(a: number, b: number): number {
+  return a - b * Math.floor(a / b);
+}
+
+export function step(a: number): number {
+  return a >= 0 ? 1 : 0;
+}
+
 export function evaluatePolish(tokens: FunctionToken[], var1: number, var2: number, var3: number): number {
   let read = 0;
 
@@ -44,9 +53,45 @@ export function evaluatePolish(tokens: FunctionToken[], var1: number, var2: numb
         return Math.tan(evalRec());
       case "LN":
         return Math.log(evalRec());
+      case "ASIN":
+        return Math.asin(evalRec());
+      case "ACOS":
+        return Math.acos(evalRec());
+      case "ATAN":
+        return Math.atan(evalRec());
+      case "SINH":
+        return Math.sinh(evalRec());
+      case "COSH":
+        return Math.cosh(evalRec());
+      case "TANH":
+        return Math.tanh(evalRec());
+      case "FLOOR":
+        return Math.floor(evalRec());
+      case "CEIL":
+        return Math.ceil(evalRec());
+      case "ROUND":
+        return Math.round(evalRec());
+      case "SIGN":
+        return Math.sign(evalRec());
+      case "STEP":
+        return step(evalRec());
+
+      case "MIN":
+        return Math.min(evalRec(), evalRec());
+      case "MAX":
+        return Math.max(evalRec(), evalRec());
+      case "MOD":
+        return floorMod(evalRec(), evalRec());
+      case "IF": {
+        const c = evalRec();
+        const a = evalRec();
+        const b = evalRec();
+        return c > 0 ? a : b;
+      }
 
       case "LEFT_BRACKET":
       case "RIGHT_BRACKET":
+      case "COMMA":
         return NaN;
     }
   };
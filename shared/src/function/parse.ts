@@ -1,21 +1,49 @@
+import type { GameMode } from "../gameConstants";
 import {
   type FunctionToken,
   type TokenType,
   isUnaryFunction,
+  isMultiArgFunction,
   isValueLike,
   isOperation,
   numParams,
   tokenOrder,
 } from "./tokens";
 
+// Columns are UTF-16 offsets into the string the user typed; `end` is exclusive.
+export type SourceSpan = { start: number; end: number };
+
 export class MalformedFunctionError extends Error {
-  constructor(message: string = "Malformed function") {
+  span?: SourceSpan;
+
+  constructor(message: string = "Malformed function", span?: SourceSpan) {
     super(message);
     this.name = "MalformedFunctionError";
+    this.span = span;
   }
 }
 
-const TOKEN_RE = /[0-9]*\.?[0-9]+|\(|\)|x|y|y'|\+|\*|\/|\^|exp|sqrt|log|abs|sin|sen|cos|tan|tg|-|ln|e|pi/g;
+// Longer names come before their prefixes (sinh before sin, cosh before cos, ...).
+const TOKEN_RE =
+  /[0-9]*\.?[0-9]+|\(|\)|,|x|y'|y|\+|\*|\/|\^|asin|acos|atan|sinh|cosh|tanh|floor|ceil|round|sign|step|min|max|mod|if|exp|sqrt|log|abs|sin|sen|cos|tan|tg|-|ln|e|pi/y;
+
+// Which variables an expression may use: x, y, y' (graphs and ODEs), t (parametric curves) or θ (polar curves).
+type Variables = "xy" | "t" | "theta";
+
+// The curve parameter is tried last so tan/tanh/tg still win over t and theta.
+const VARIABLE_TOKEN_RE: Record<Variables, RegExp> = {
+  xy: TOKEN_RE,
+  t: new RegExp(`${TOKEN_RE.source}|t`, "y"),
+  theta: new RegExp(`${TOKEN_RE.source}|theta|θ`, "y"),
+};
+
+// How the curve parameter is named in error messages.
+const PARAMETER_USAGE: Record<Exclude<Variables, "xy">, string> = {
+  t: "t as the variable in x(t); y(t)",
+  theta: "θ as the variable in r(θ)",
+};
+
+const MULTI_ARG_CALL_RE = /(?:min|max|mod|if)\s*$/;
 
 const SUPERSCRIPT_MAP: Record<string, string> = {
   "⁰": "0",
@@ -30,42 +58,167 @@ const SUPERSCRIPT_MAP: Record<string, string> = {
   "⁹": "9",
 };
 
-function stripCommonPrefixes(s: string): string {
+// Normalized text plus, for every character, the column it came from in the original input.
+type MappedText = { text: string; cols: number[] };
+
+function mappedReplace(
+  m: MappedText,
+  re: RegExp,
+  replacer: string | ((match: string, ...groups: string[]) => string),
+): MappedText {
+  const flags = re.flags.includes("g") ? re.flags : re.flags + "g";
+  const global = new RegExp(re.source, flags);
+  let text = "";
+  const cols: number[] = [];
+  let last = 0;
+  for (const match of m.text.matchAll(global)) {
+    const at = match.index!;
+    text += m.text.slice(last, at);
+    cols.push(...m.cols.slice(last, at));
+
+    const out = typeof replacer === "string" ? replacer : replacer(match[0], ...match.slice(1));
+    // Replacement characters inherit the column of the source character in the same slot (or the last one).
+    for (let i = 0; i < out.length; i++) {
+      cols.push(m.cols[at + Math.min(i, match[0].length - 1)] ?? m.cols[at] ?? 0);
+    }
+    text += out;
+    last = at + match[0].length;
+  }
+  text += m.text.slice(last);
+  cols.push(...m.cols.slice(last));
+  return { text, cols };
+}
+
+function stripCommonPrefixes(m: MappedText, variables: Variables): MappedText {
+  // Parametric parts may be written as x(t)=..., y(t)=..., x=..., y=...
+  if (variables === "t") return mappedReplace(m, /^\s*[xy]\s*(\(\s*t\s*\))?\s*=\s*/, "");
+  // Polar shots may be written as r=... or r(θ)=...
+  if (variables === "theta") return mappedReplace(m, /^\s*r\s*(\(\s*(θ|theta)\s*\))?\s*=\s*/, "");
+
   // Accept common user inputs: y=..., y'=..., y''=...
   // Server/game mode decides interpretation; we just strip LHS.
-  return s
-    .replace(/^\s*y\s*''\s*=\s*/, "")
-    .replace(/^\s*y\s*''\s*/, "")
-    .replace(/^\s*y\s*'\s*=\s*/, "")
-    .replace(/^\s*y\s*'\s*/, "")
-    .replace(/^\s*y\s*=\s*/, "")
-    .replace(/^\s*f\s*\(\s*x\s*\)\s*=\s*/, "");
+  let out = m;
+  for (const re of [
+    /^\s*y\s*''\s*=\s*/,
+    /^\s*y\s*''\s*/,
+    /^\s*y\s*'\s*=\s*/,
+    /^\s*y\s*'\s*/,
+    /^\s*y\s*=\s*/,
+    /^\s*f\s*\(\s*x\s*\)\s*=\s*/,
+  ]) {
+    out = mappedReplace(out, re, "");
+  }
+  return out;
 }
 
-function normalizeInput(input: string): string {
-  let s = input.toLowerCase();
-  s = stripCommonPrefixes(s);
-  s = s.trim();
+// Normalizes input[from, to); columns stay relative to the whole input.
+function normalizeInput(input: string, variables: Variables, from: number, to: number): MappedText {
+  let m: MappedText = { text: "", cols: [] };
+  for (let i = from; i < to; ) {
+    const ch = String.fromCodePoint(input.codePointAt(i)!);
+    const lower = ch.toLowerCase();
+    m.text += lower;
+    for (let k = 0; k < lower.length; k++) m.cols.push(i);
+    i += ch.length;
+  }
+
+  m = stripCommonPrefixes(m, variables);
+  m = mappedReplace(m, /^\s+|\s+$/, "");
 
   // Normalize common operator variants
-  s = s.replaceAll("**", "^");
-  s = s.replace(/[ˆ∧]/g, "^");
-  s = s.replaceAll("×", "*");
-  s = s.replaceAll("÷", "/");
-  s = s.replaceAll(",", ".");
+  m = mappedReplace(m, /\*\*/, "^");
+  m = mappedReplace(m, /[ˆ∧]/, "^");
+  m = mappedReplace(m, /×/, "*");
+  m = mappedReplace(m, /÷/, "/");
+  m = normalizeDecimalCommas(m);
 
   // Normalize unicode superscripts: x² -> x^2, (x+1)³ -> (x+1)^3
-  s = s.replace(/([a-z\)\]])\s*([⁰¹²³⁴⁵⁶⁷⁸⁹])/g, (_, base: string, sup: string) => {
+  m = mappedReplace(m, /([a-z\)\]])\s*([⁰¹²³⁴⁵⁶⁷⁸⁹])/, (_, base: string, sup: string) => {
     return `${base}^${SUPERSCRIPT_MAP[sup] ?? sup}`;
   });
 
   // Keep Graphwar-like unary-minus behavior: rewrite '-' into '+-'
   // (This intentionally accepts expressions like -2x^2 similar to original.)
-  s = s.replaceAll("-", "+-");
-  return s;
+  m = mappedReplace(m, /-/, "+-");
+  return m;
+}
+
+// A comma separates arguments when its innermost bracket opens a min/max/mod/if call.
+// Anywhere else it is still read as a decimal comma (1,5 == 1.5), as before.
+function normalizeDecimalCommas(m: MappedText): MappedText {
+  const brackets: boolean[] = []; // true = argument list
+  let text = "";
+  for (let i = 0; i < m.text.length; i++) {
+    const ch = m.text[i]!;
+    if (ch === "(") brackets.push(MULTI_ARG_CALL_RE.test(m.text.slice(0, i)));
+    else if (ch === ")") brackets.pop();
+    text += ch === "," && !brackets[brackets.length - 1] ? "." : ch;
+  }
+  return { text, cols: m.cols };
+}
+
+type RawToken = { tok: string; col: number };
+
+// A token and the columns it was read from; implicit multiplications get an empty span where they go.
+type LocatedToken = { token: FunctionToken; span: SourceSpan };
+
+function tokenize(m: MappedText, input: string, variables: Variables): RawToken[] {
+  const tokenRe = VARIABLE_TOKEN_RE[variables];
+  const out: RawToken[] = [];
+  const openBrackets: number[] = [];
+  let i = 0;
+  while (i < m.text.length) {
+    if (/\s/.test(m.text[i]!)) {
+      i++;
+      continue;
+    }
+
+    tokenRe.lastIndex = i;
+    const match = tokenRe.exec(m.text);
+    const col = m.cols[i]!;
+    if (!match) {
+      // Blame a whole unknown word ("foo") rather than just its first letter.
+      const word = /^[a-z]+/i.exec(input.slice(col))?.[0];
+      if (word) {
+        throw new MalformedFunctionError(`Unknown name '${word}' at column ${col + 1}`, {
+          start: col,
+          end: col + word.length,
+        });
+      }
+      const ch = String.fromCodePoint(input.codePointAt(col) ?? m.text.codePointAt(i)!);
+      throw new MalformedFunctionError(`Unexpected character '${ch}' at column ${col + 1}`, {
+        start: col,
+        end: col + ch.length,
+      });
+    }
+
+    const tok = match[0];
+    if (tok === "(") openBrackets.push(col);
+    if (tok === ")" && openBrackets.pop() === undefined) {
+      throw new MalformedFunctionError(`Unmatched ')' at column ${col + 1}`, { start: col, end: col + 1 });
+    }
+    out.push({ tok, col });
+    i += tok.length;
+  }
+
+  const unclosed = openBrackets.pop();
+  if (unclosed !== undefined) {
+    throw new MalformedFunctionError(`Unclosed '(' at column ${unclosed + 1}`, { start: unclosed, end: unclosed + 1 });
+  }
+  return out;
 }
 
-function makeToken(tok: string): FunctionToken {
+function makeToken({ tok, col }: RawToken, variables: Variables): FunctionToken {
+  if (variables !== "xy") {
+    if (tok === "t" || tok === "theta" || tok === "θ") return { type: "VAR1" };
+    if (tok === "x" || tok === "y" || tok === "y'") {
+      throw new MalformedFunctionError(`Use ${PARAMETER_USAGE[variables]}, not ${tok}`, {
+        start: col,
+        end: col + tok.length,
+      });
+    }
+  }
+
   if (tok === "x") return { type: "VAR1" };
   if (tok === "y") return { type: "VAR2" };
   if (tok === "y'") return { type: "VAR3" };
@@ -82,6 +235,22 @@ function makeToken(tok: string): FunctionToken {
   if (tok === "cos") return { type: "COS" };
   if (tok === "tan" || tok === "tg") return { type: "TAN" };
   if (tok === "ln") return { type: "LN" };
+  if (tok === "asin") return { type: "ASIN" };
+  if (tok === "acos") return { type: "ACOS" };
+  if (tok === "atan") return { type: "ATAN" };
+  if (tok === "sinh") return { type: "SINH" };
+  if (tok === "cosh") return { type: "COSH" };
+  if (tok === "tanh") return { type: "TANH" };
+  if (tok === "floor") return { type: "FLOOR" };
+  if (tok === "ceil") return { type: "CEIL" };
+  if (tok === "round") return { type: "ROUND" };
+  if (tok === "sign") return { type: "SIGN" };
+  if (tok === "step") return { type: "STEP" };
+  if (tok === "min") return { type: "MIN" };
+  if (tok === "max") return { type: "MAX" };
+  if (tok === "mod") return { type: "MOD" };
+  if (tok === "if") return { type: "IF" };
+  if (tok === ",") return { type: "COMMA" };
   if (tok === "e") return { type: "VALUE", value: Math.E };
   if (tok === "pi") return { type: "VALUE", value: Math.PI };
   if (tok === "(") return { type: "LEFT_BRACKET" };
@@ -90,29 +259,29 @@ function makeToken(tok: string): FunctionToken {
   const maybeNum = Number(tok);
   if (!Number.isNaN(maybeNum)) return { type: "VALUE", value: maybeNum };
 
-  throw new MalformedFunctionError(`Unknown token: ${tok}`);
+  throw new MalformedFunctionError(`Unknown token: ${tok}`, { start: col, end: col + tok.length });
 }
 
 function isImplicit(type1: TokenType, type2: TokenType): boolean {
   // Port of Java isImplicit()
   if (isValueLike(type1) || type1 === "RIGHT_BRACKET") {
-    if (isValueLike(type2) || type2 === "LEFT_BRACKET" || isUnaryFunction(type2)) {
+    if (isValueLike(type2) || type2 === "LEFT_BRACKET" || isUnaryFunction(type2) || isMultiArgFunction(type2)) {
       return true;
     }
   }
   return false;
 }
 
-function adjustImplicitMultiplications(tokens: FunctionToken[]): FunctionToken[] {
+function adjustImplicitMultiplications(tokens: LocatedToken[]): LocatedToken[] {
   if (tokens.length === 0) return tokens;
 
-  const out: FunctionToken[] = [tokens[0]!];
+  const out: LocatedToken[] = [tokens[0]!];
   for (let i = 1; i < tokens.length; i++) {
     const last = out[out.length - 1]!;
     const next = tokens[i]!;
 
-    if (isImplicit(last.type, next.type)) {
-      out.push({ type: "MULTIPLY" });
+    if (isImplicit(last.token.type, next.token.type)) {
+      out.push({ token: { type: "MULTIPLY" }, span: { start: next.span.start, end: next.span.start } });
     }
 
     out.push(next);
@@ -136,7 +305,8 @@ function valuesNeededForPolish(tokens: FunctionToken[]): number {
   return valuesNeeded;
 }
 
-function reorderToPolishNotation(funcTokens: FunctionToken[]): FunctionToken[] {
+function reorderToPolishNotation(located: LocatedToken[]): FunctionToken[] {
+  const funcTokens = located.map((l) => l.token);
   const polish: FunctionToken[] = [];
 
   const reorderRec = (start: number, end: number): boolean => {
@@ -150,6 +320,7 @@ function reorderToPolishNotation(funcTokens: FunctionToken[]): FunctionToken[] {
       const t = funcTokens[i]!;
       if (t.type === "LEFT_BRACKET") nest++;
       else if (t.type === "RIGHT_BRACKET") nest--;
+      else if (t.type === "COMMA") continue;
       else if (
         nest < nextNest ||
         (nest === nextNest && (next === -1 || tokenOrder(t.type) < tokenOrder(funcTokens[next]!.type)))
@@ -162,6 +333,12 @@ function reorderToPolishNotation(funcTokens: FunctionToken[]): FunctionToken[] {
     if (next === -1) return false;
 
     const op = funcTokens[next]!;
+    if (isMultiArgFunction(op.type)) {
+      polish.push(op);
+      reorderArguments(op.type, next + 1, end);
+      return true;
+    }
+
     switch (numParams(op.type)) {
       case 0: {
         polish.push(op);
@@ -181,6 +358,45 @@ function reorderToPolishNotation(funcTokens: FunctionToken[]): FunctionToken[] {
         reorderRec(next + 1, end);
         return true;
       }
+      case 3:
+        // Only IF takes three operands, and it is a multi-argument call handled above.
+        return false;
+    }
+  };
+
+  // name(a, b, ...): the bracket right after the name holds exactly numParams comma-separated arguments.
+  // Errors point at the name, or at the whole call once its bracket is there.
+  const reorderArguments = (type: TokenType, open: number, end: number): void => {
+    const name = type.toLowerCase();
+    const expected = numParams(type);
+    const nameSpan = located[open - 1]!.span;
+    if (funcTokens[open]?.type !== "LEFT_BRACKET") {
+      throw new MalformedFunctionError(
+        `${name} needs its ${expected} arguments in brackets, e.g. ${name}(a, b)`,
+        nameSpan,
+      );
+    }
+
+    const commas: number[] = [];
+    let close = -1;
+    let nest = 0;
+    for (let i = open; i <= end; i++) {
+      const t = funcTokens[i]!;
+      if (t.type === "LEFT_BRACKET") nest++;
+      else if (t.type === "RIGHT_BRACKET" && --nest === 0) {
+        close = i;
+        break;
+      } else if (t.type === "COMMA" && nest === 1) commas.push(i);
+    }
+    const callSpan = { start: nameSpan.start, end: located[close === -1 ? end : close]!.span.end };
+    if (close === -1 || commas.length !== expected - 1) {
+      throw new MalformedFunctionError(`${name} expects ${expected} comma-separated arguments`, callSpan);
+    }
+
+    let from = open + 1;
+    for (const stop of [...commas, close]) {
+      if (!reorderRec(from, stop - 1)) throw new MalformedFunctionError(`${name} has an empty argument`, callSpan);
+      from = stop + 1;
     }
   };
 
@@ -188,16 +404,52 @@ function reorderToPolishNotation(funcTokens: FunctionToken[]): FunctionToken[] {
   return polish;
 }
 
-export function parseToPolishTokens(input: string): FunctionToken[] {
-  const s = normalizeInput(input);
-  const matches = s.match(TOKEN_RE) ?? [];
-  const tokens = matches.map(makeToken);
+// Parses input[from, to), so error columns and spans count from the start of the whole input.
+function parseExpression(input: string, variables: Variables, from = 0, to = input.length): FunctionToken[] {
+  const normalized = normalizeInput(input, variables, from, to);
+  const tokens = tokenize(normalized, input, variables).map((raw): LocatedToken => ({
+    token: makeToken(raw, variables),
+    span: { start: raw.col, end: raw.col + raw.tok.length },
+  }));
   const withImplicit = adjustImplicitMultiplications(tokens);
   const polish = reorderToPolishNotation(withImplicit);
 
   if (valuesNeededForPolish(polish) !== 0) {
-    throw new MalformedFunctionError();
+    // Operators without operands; there's no single column to blame, so point at the whole expression.
+    throw new MalformedFunctionError("Incomplete expression", { start: from, end: to });
   }
 
   return polish;
 }
+
+export function parseToPolishTokens(input: string): FunctionToken[] {
+  return parseExpression(input, "xy");
+}
+
+// "x(t); y(t)": two expressions in t. Spans stay relative to the whole input.
+export function parseParametricToPolishTokens(input: string): { x: FunctionToken[]; y: FunctionToken[] } {
+  const sep = input.indexOf(";");
+  if (sep === -1 || input.indexOf(";", sep + 1) !== -1) {
+    throw new MalformedFunctionError("Parametric shots need exactly two parts: x(t); y(t)", {
+      start: 0,
+      end: input.length,
+    });
+  }
+
+  return { x: parseExpression(input, "t", 0, sep), y: parseExpression(input, "t", sep + 1, input.length) };
+}
+
+// "r(θ)": one expression in θ (also written theta).
+export function parsePolarToPolishTokens(input: string): FunctionToken[] {
+  return parseExpression(input, "theta");
+}
+
+// Parses a shot function the way `mode` reads it; used to check input before firing.
+export function parseShotFunction(mode: GameMode, input: string): FunctionToken[][] {
+  if (mode === "parametric") {
+    const { x, y } = parseParametricToPolishTokens(input);
+    return [x, y];
+  }
+  if (mode === "polar") return [parsePolarToPolishTokens(input)];
+  return [parseToPolishTokens(input)];
+}
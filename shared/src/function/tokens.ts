@@ -12,12 +12,28 @@ export type TokenType =
   | "COS"
   | "TAN"
   | "LN"
+  | "ASIN"
+  | "ACOS"
+  | "ATAN"
+  | "SINH"
+  | "COSH"
+  | "TANH"
+  | "FLOOR"
+  | "CEIL"
+  | "ROUND"
+  | "SIGN"
+  | "STEP" // step(a): 1 when a >= 0, else 0
+  | "MIN" // min(a, b)
+  | "MAX" // max(a, b)
+  | "MOD" // mod(a, b): remainder with the sign of b
+  | "IF" // if(c, a, b): a when c > 0, else b
   | "VAR1" // x
   | "VAR2" // y
   | "VAR3" // y'
   | "VALUE"
   | "LEFT_BRACKET"
-  | "RIGHT_BRACKET";
+  | "RIGHT_BRACKET"
+  | "COMMA"; // argument separator, only inside min/max/mod/if calls
 
 export type FunctionToken =
   | { type: Exclude<TokenType, "VALUE"> }
@@ -25,6 +41,7 @@ export type FunctionToken =
 
 export function tokenOrder(type: TokenType): number {
   // Mirrors Graphwar FunctionToken numeric ordering for precedence selection.
+  // Functions added on top of Graphwar's set slot in after LN, so every operation still sorts before values.
   switch (type) {
     case "ADD":
       return 1;
@@ -52,30 +69,87 @@ export function tokenOrder(type: TokenType): number {
       return 12;
     case "LN":
       return 13;
-    case "VAR1":
+    case "ASIN":
       return 14;
-    case "VAR2":
+    case "ACOS":
       return 15;
-    case "VAR3":
+    case "ATAN":
       return 16;
-    case "VALUE":
+    case "SINH":
       return 17;
-    case "LEFT_BRACKET":
+    case "COSH":
       return 18;
-    case "RIGHT_BRACKET":
+    case "TANH":
       return 19;
+    case "FLOOR":
+      return 20;
+    case "CEIL":
+      return 21;
+    case "ROUND":
+      return 22;
+    case "SIGN":
+      return 23;
+    case "STEP":
+      return 24;
+    case "MIN":
+      return 25;
+    case "MAX":
+      return 26;
+    case "MOD":
+      return 27;
+    case "IF":
+      return 28;
+    case "VAR1":
+      return 29;
+    case "VAR2":
+      return 30;
+    case "VAR3":
+      return 31;
+    case "VALUE":
+      return 32;
+    case "LEFT_BRACKET":
+      return 33;
+    case "RIGHT_BRACKET":
+      return 34;
+    case "COMMA":
+      return 35;
   }
 }
 
 export function isOperation(type: TokenType): boolean {
-  return tokenOrder(type) >= 1 && tokenOrder(type) <= 13;
+  return tokenOrder(type) >= 1 && tokenOrder(type) <= 28;
 }
 
-export function numParams(type: TokenType): 0 | 1 | 2 {
+export function numParams(type: TokenType): 0 | 1 | 2 | 3 {
   // SUBTRACT is unary in Graphwar
   if (type === "SUBTRACT") return 1;
-  if (["ADD", "MULTIPLY", "DIVIDE", "POW"].includes(type)) return 2;
-  if (["EXP", "SQRT", "LOG", "ABS", "SIN", "COS", "TAN", "LN"].includes(type)) return 1;
+  if (["ADD", "MULTIPLY", "DIVIDE", "POW", "MIN", "MAX", "MOD"].includes(type)) return 2;
+  if (type === "IF") return 3;
+  if (
+    [
+      "EXP",
+      "SQRT",
+      "LOG",
+      "ABS",
+      "SIN",
+      "COS",
+      "TAN",
+      "LN",
+      "ASIN",
+      "ACOS",
+      "ATAN",
+      "SINH",
+      "COSH",
+      "TANH",
+      "FLOOR",
+      "CEIL",
+      "ROUND",
+      "SIGN",
+      "STEP",
+    ].includes(type)
+  ) {
+    return 1;
+  }
   return 0;
 }
 
@@ -86,3 +160,8 @@ export function isValueLike(type: TokenType): boolean {
 export function isUnaryFunction(type: TokenType): boolean {
   return numParams(type) === 1 && isOperation(type);
 }
+
+// Functions written as name(a, b, ...): their arguments are split on commas instead of by precedence.
+export function isMultiArgFunction(type: TokenType): boolean {
+  return type === "MIN" || type === "MAX" || type === "MOD" || type === "IF";
+}
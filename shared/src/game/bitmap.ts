@@ -0,0 +1,144 @@
+import { GAME_CONSTANTS } from "../gameConstants";
+
+// Solid/empty pixels, one bit each, row-major: bit (y * width + x) is pixel (x, y).
+// Like the original Java game, terrain is pixels; circles are only one way to fill them.
+export type TerrainBitmap = { width: number; height: number; bits: Uint8Array };
+
+export function createTerrainBitmap(
+  width: number = GAME_CONSTANTS.PLANE_LENGTH,
+  height: number = GAME_CONSTANTS.PLANE_HEIGHT,
+): TerrainBitmap {
+  return { width, height, bits: new Uint8Array(Math.ceil((width * height) / 8)) };
+}
+
+export function cloneTerrainBitmap(bitmap: TerrainBitmap): TerrainBitmap {
+  return { width: bitmap.width, height: bitmap.height, bits: bitmap.bits.slice() };
+}
+
+// Pixel (x, y) must be inside the bitmap.
+export function bitmapSolidAt(bitmap: TerrainBitmap, x: number, y: number): boolean {
+  const i = y * bitmap.width + x;
+  return (bitmap.bits[i >> 3]! & (1 << (i & 7))) !== 0;
+}
+
+// Sets every pixel whose centre lies within the circle to `solid`.
+function paintCircle(bitmap: TerrainBitmap, c: { x: number; y: number; r: number }, solid: boolean): void {
+  const y0 = Math.max(0, Math.ceil(c.y - c.r - 0.5));
+  const y1 = Math.min(bitmap.height - 1, Math.floor(c.y + c.r - 0.5));
+  for (let y = y0; y <= y1; y++) {
+    const dy = y + 0.5 - c.y;
+    const half = Math.sqrt(c.r * c.r - dy * dy);
+    const x0 = Math.max(0, Math.ceil(c.x - half - 0.5));
+    const x1 = Math.min(bitmap.width - 1, Math.floor(c.x + half - 0.5));
+    for (let x = x0; x <= x1; x++) {
+      const i = y * bitmap.width + x;
+      if (solid) bitmap.bits[i >> 3]! |= 1 << (i & 7);
+      else bitmap.bits[i >> 3]! &= ~(1 << (i & 7));
+    }
+  }
+}
+
+export function fillBitmapCircle(bitmap: TerrainBitmap, c: { x: number; y: number; r: number }): void {
+  paintCircle(bitmap, c, true);
+}
+
+// Explosions carve the bitmap in place; there is no list of holes to grow.
+export function carveBitmapCircle(bitmap: TerrainBitmap, c: { x: number; y: number; r: number }): void {
+  paintCircle(bitmap, c, false);
+}
+
+// Sets every pixel in [x, x + w) × [y, y + h) to `solid`.
+function paintRect(
+  bitmap: TerrainBitmap,
+  rect: { x: number; y: number; w: number; h: number },
+  solid: boolean,
+): void {
+  const x0 = Math.max(0, Math.floor(rect.x));
+  const x1 = Math.min(bitmap.width, Math.floor(rect.x + rect.w));
+  const y0 = Math.max(0, Math.floor(rect.y));
+  const y1 = Math.min(bitmap.height, Math.floor(rect.y + rect.h));
+  for (let y = y0; y < y1; y++) {
+    for (let x = x0; x < x1; x++) {
+      const i = y * bitmap.width + x;
+      if (solid) bitmap.bits[i >> 3]! |= 1 << (i & 7);
+      else bitmap.bits[i >> 3]! &= ~(1 << (i & 7));
+    }
+  }
+}
+
+export function fillBitmapRect(bitmap: TerrainBitmap, rect: { x: number; y: number; w: number; h: number }): void {
+  paintRect(bitmap, rect, true);
+}
+
+export function carveBitmapRect(bitmap: TerrainBitmap, rect: { x: number; y: number; w: number; h: number }): void {
+  paintRect(bitmap, rect, false);
+}
+
+export function bitmapFromCircles(circles: Array<{ x: number; y: number; r: number }>): TerrainBitmap {
+  const bitmap = createTerrainBitmap();
+  for (const c of circles) fillBitmapCircle(bitmap, c);
+  return bitmap;
+}
+
+// Wire format: "<width>x<height>:<base64>", where the bytes are LEB128 run lengths over the whole
+// pixel stream, alternating empty/solid and starting with empty. A typical map is a few KB.
+export function encodeTerrainBitmap(bitmap: TerrainBitmap): string {
+  const bytes: number[] = [];
+  const pushRun = (n: number) => {
+    while (n >= 0x80) {
+      bytes.push((n & 0x7f) | 0x80);
+      n >>>= 7;
+    }
+    bytes.push(n);
+  };
+
+  const total = bitmap.width * bitmap.height;
+  let current = false;
+  let run = 0;
+  for (let i = 0; i < total; i++) {
+    const solid = (bitmap.bits[i >> 3]! & (1 << (i & 7))) !== 0;
+    if (solid !== current) {
+      pushRun(run);
+      current = solid;
+      run = 0;
+    }
+    run++;
+  }
+  pushRun(run);
+
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.slice(i, i + 0x8000));
+  }
+  return `${bitmap.width}x${bitmap.height}:${btoa(binary)}`;
+}
+
+export function decodeTerrainBitmap(encoded: string): TerrainBitmap {
+  const m = /^(\d+)x(\d+):([A-Za-z0-9+/=]*)$/.exec(encoded);
+  if (!m) throw new Error("Malformed terrain bitmap");
+  const bitmap = createTerrainBitmap(Number(m[1]), Number(m[2]));
+  const total = bitmap.width * bitmap.height;
+  const binary = atob(m[3]!);
+
+  let pos = 0;
+  let i = 0;
+  let solid = false;
+  while (i < binary.length) {
+    let run = 0;
+    let shift = 0;
+    for (;;) {
+      const b = binary.charCodeAt(i++);
+      run += (b & 0x7f) * 2 ** shift;
+      if (b < 0x80 || i >= binary.length) break;
+      shift += 7;
+    }
+    if (pos + run > total) throw new Error("Malformed terrain bitmap");
+    if (solid) {
+      for (let k = pos; k < pos + run; k++) bitmap.bits[k >> 3]! |= 1 << (k & 7);
+    }
+    pos += run;
+    solid = !solid;
+  }
+  if (pos !== total) throw new Error("Malformed terrain bitmap");
+  return bitmap;
+}
@@ -0,0 +1,60 @@
+import { GAME_CONSTANTS } from "../gameConstants";
+import type { GameTeam } from "../index";
+import { terrainFromCircles, type TerrainCircle, type TerrainState } from "./terrain";
+
+// Hand-made maps, as exported from the map editor and loaded into a room with room.setMap.
+// Bump CUSTOM_MAP_VERSION whenever the shape changes; importCustomMap rejects versions it doesn't know.
+export const CUSTOM_MAP_FORMAT = "graphwar-map";
+export const CUSTOM_MAP_VERSION = 1;
+
+export const CUSTOM_MAP_LIMITS = {
+  MAX_CIRCLES: 200,
+  MAX_CIRCLE_RADIUS: 300,
+  MAX_SPAWN_ZONES: 16,
+  // Enough for a full 1vX room: five players with the maximum soldiers each, on one team.
+  MAX_FIXED_SPAWNS: 64,
+} as const;
+
+// Soldiers of `team` spawn somewhere inside one of their team's zones.
+export type SpawnZone = { team: GameTeam; x: number; y: number; w: number; h: number };
+
+// Exact soldier positions, handed out in order to the team's soldiers before any zone is used.
+export type FixedSpawn = { team: GameTeam; x: number; y: number };
+
+export type CustomMap = {
+  format: typeof CUSTOM_MAP_FORMAT;
+  version: typeof CUSTOM_MAP_VERSION;
+  name: string;
+  circles: TerrainCircle[];
+  spawnZones: SpawnZone[];
+  fixedSpawns: FixedSpawn[];
+};
+
+// Where soldiers may spawn; placeSoldiers falls back to the team's half when a team has no zones.
+export type SpawnLayout = Pick<CustomMap, "spawnZones" | "fixedSpawns">;
+
+export function emptyCustomMap(name = "Untitled map"): CustomMap {
+  return { format: CUSTOM_MAP_FORMAT, version: CUSTOM_MAP_VERSION, name, circles: [], spawnZones: [], fixedSpawns: [] };
+}
+
+export function exportCustomMap(map: CustomMap): string {
+  return JSON.stringify(map, null, 2);
+}
+
+export function customMapTerrain(map: CustomMap): TerrainState {
+  return terrainFromCircles(map.circles.map((c) => ({ ...c })));
+}
+
+export function spawnZoneContains(zone: SpawnZone, p: { x: number; y: number }): boolean {
+  return p.x >= zone.x && p.x < zone.x + zone.w && p.y >= zone.y && p.y < zone.y + zone.h;
+}
+
+// Zones are stored clipped to the plane, so rectangles dragged past the edge stay valid.
+export function clipSpawnZone(zone: SpawnZone): SpawnZone | null {
+  const x0 = Math.max(0, Math.min(zone.x, zone.x + zone.w));
+  const y0 = Math.max(0, Math.min(zone.y, zone.y + zone.h));
+  const x1 = Math.min(GAME_CONSTANTS.PLANE_LENGTH, Math.max(zone.x, zone.x + zone.w));
+  const y1 = Math.min(GAME_CONSTANTS.PLANE_HEIGHT, Math.max(zone.y, zone.y + zone.h));
+  if (x1 - x0 < 1 || y1 - y0 < 1) return null;
+  return { team: zone.team, x: Math.round(x0), y: Math.round(y0), w: Math.round(x1 - x0), h: Math.round(y1 - y0) };
+}
@@ -0,0 +1,330 @@
+import { GAME_CONSTANTS, type MapStyle } from "../gameConstants";
+import { randomGaussian } from "../math/random";
+import type { Point } from "../math/types";
+import {
+  bitmapSolidAt,
+  carveBitmapCircle,
+  carveBitmapRect,
+  createTerrainBitmap,
+  fillBitmapCircle,
+  fillBitmapRect,
+  type TerrainBitmap,
+} from "./bitmap";
+import type { GameTeam } from "../index";
+import type { SpawnLayout } from "./customMap";
+import type { PlayerGameState } from "./physics";
+import { terrainFromCircles, type TerrainCircle, type TerrainState } from "./terrain";
+
+// Builds the starting terrain for a match. All randomness must come from `rng`, so the match seed
+// regenerates the same map. Generators don't need to leave room for soldiers; placeSoldiers does.
+export interface TerrainGenerator {
+  style: MapStyle;
+  generate(rng: () => number): TerrainState;
+}
+
+function circlesTooClose(a: TerrainCircle, b: TerrainCircle, gap: number): boolean {
+  const minD = a.r + b.r + gap;
+  const dx = a.x - b.x;
+  const dy = a.y - b.y;
+  return dx * dx + dy * dy < minD * minD;
+}
+
+// The original Graphwar map: separate round "moon rocks".
+const moonGenerator: TerrainGenerator = {
+  style: "moon",
+  generate(rng) {
+    const {
+      PLANE_LENGTH,
+      PLANE_HEIGHT,
+      NUM_CIRCLES_MEAN_VALUE,
+      NUM_CIRCLES_STANDARD_DEVIATION,
+      CIRCLE_MEAN_RADIUS,
+      CIRCLE_STANDARD_DEVIATION,
+    } = GAME_CONSTANTS;
+
+    // Spawn constraints tuned to avoid cramped/overlapping maps.
+    const MIN_CIRCLE_R = 14;
+    const MAX_CIRCLE_R = 90;
+    const MIN_CIRCLE_GAP = 14; // pixels between circle edges
+    const EDGE_PADDING = 8; // keep away from boundary
+    const MAX_TRIES_PER_CIRCLE = 80;
+
+    let target = Math.trunc(randomGaussian(rng) * NUM_CIRCLES_STANDARD_DEVIATION + NUM_CIRCLES_MEAN_VALUE);
+    if (target < 1) target = 1;
+
+    const circles: TerrainCircle[] = [];
+
+    // Place circles with rejection sampling; if the plane is too dense we simply place fewer.
+    for (let i = 0; i < target; i++) {
+      let placed = false;
+
+      for (let attempt = 0; attempt < MAX_TRIES_PER_CIRCLE; attempt++) {
+        let r = Math.trunc(randomGaussian(rng) * CIRCLE_STANDARD_DEVIATION + CIRCLE_MEAN_RADIUS);
+        while (r < MIN_CIRCLE_R) r = Math.trunc(randomGaussian(rng) * CIRCLE_STANDARD_DEVIATION + CIRCLE_MEAN_RADIUS);
+        if (r > MAX_CIRCLE_R) r = MAX_CIRCLE_R;
+
+        const xMin = r + EDGE_PADDING;
+        const xMax = PLANE_LENGTH - r - EDGE_PADDING;
+        const yMin = r + EDGE_PADDING;
+        const yMax = PLANE_HEIGHT - r - EDGE_PADDING;
+
+        if (xMax <= xMin || yMax <= yMin) continue;
+
+        const candidate: TerrainCircle = {
+          x: Math.floor(xMin + rng() * (xMax - xMin)),
+          y: Math.floor(yMin + rng() * (yMax - yMin)),
+          r,
+        };
+
+        if (circles.some((c) => circlesTooClose(candidate, c, MIN_CIRCLE_GAP))) continue;
+
+        circles.push(candidate);
+        placed = true;
+        break;
+      }
+
+      if (!placed) {
+        // Stop early if we can't fit more without breaking spacing rules.
+        break;
+      }
+    }
+
+    return terrainFromCircles(circles);
+  },
+};
+
+// Rolling ground along the bottom, with one or two sharper ridges rising out of it mid-map.
+const hillsGenerator: TerrainGenerator = {
+  style: "hills",
+  generate(rng) {
+    const { PLANE_LENGTH, PLANE_HEIGHT } = GAME_CONSTANTS;
+    const bitmap = createTerrainBitmap();
+
+    const waves = [1, 2, 3].map((k) => ({
+      amp: ((0.05 + rng() * 0.07) * PLANE_HEIGHT) / k,
+      freq: (k * (1 + rng()) * Math.PI * 2) / PLANE_LENGTH,
+      phase: rng() * Math.PI * 2,
+    }));
+    const ridges = Array.from({ length: 1 + Math.floor(rng() * 2) }, () => ({
+      x: PLANE_LENGTH * (0.3 + rng() * 0.4),
+      height: PLANE_HEIGHT * (0.15 + rng() * 0.2),
+      width: 30 + rng() * 50,
+    }));
+    const base = PLANE_HEIGHT * (0.72 + rng() * 0.08);
+
+    for (let x = 0; x < PLANE_LENGTH; x++) {
+      let top = base;
+      for (const w of waves) top -= w.amp * Math.sin(w.freq * x + w.phase);
+      for (const r of ridges) top -= r.height * Math.exp(-(((x - r.x) / r.width) ** 2));
+      const y = Math.max(0, Math.round(top));
+      fillBitmapRect(bitmap, { x, y, w: 1, h: PLANE_HEIGHT - y });
+    }
+
+    return { circles: [], bitmap };
+  },
+};
+
+// Random wall segments on a grid, with the odd solid block: lots of corridors and dead ends.
+const mazeGenerator: TerrainGenerator = {
+  style: "maze",
+  generate(rng) {
+    const { PLANE_LENGTH, PLANE_HEIGHT } = GAME_CONSTANTS;
+    const CELL = 55;
+    const WALL = 8;
+    const bitmap = createTerrainBitmap();
+
+    const cols = Math.floor(PLANE_LENGTH / CELL);
+    const rows = Math.floor(PLANE_HEIGHT / CELL);
+    const offX = (PLANE_LENGTH - cols * CELL) / 2;
+    const offY = (PLANE_HEIGHT - rows * CELL) / 2;
+
+    for (let r = 0; r < rows; r++) {
+      for (let c = 0; c < cols; c++) {
+        const x = offX + c * CELL;
+        const y = offY + r * CELL;
+        // No walls along the plane's own edges; those are already out of bounds.
+        if (r > 0 && rng() < 0.35) fillBitmapRect(bitmap, { x, y: y - WALL / 2, w: CELL + WALL / 2, h: WALL });
+        if (c > 0 && rng() < 0.35) fillBitmapRect(bitmap, { x: x - WALL / 2, y, w: WALL, h: CELL + WALL / 2 });
+        if (rng() < 0.06) fillBitmapRect(bitmap, { x: x + CELL / 4, y: y + CELL / 4, w: CELL / 2, h: CELL / 2 });
+      }
+    }
+
+    return { circles: [], bitmap };
+  },
+};
+
+// Flat-topped islands hanging in space, each a row of circles with its top sliced off.
+const islandsGenerator: TerrainGenerator = {
+  style: "islands",
+  generate(rng) {
+    const { PLANE_LENGTH, PLANE_HEIGHT } = GAME_CONSTANTS;
+    const MAX_TRIES_PER_ISLAND = 60;
+    const bitmap = createTerrainBitmap();
+    const circles: TerrainCircle[] = [];
+
+    const placed: Array<{ x: number; y: number; w: number }> = [];
+    const count = 5 + Math.floor(rng() * 4);
+    for (let i = 0; i < count; i++) {
+      for (let attempt = 0; attempt < MAX_TRIES_PER_ISLAND; attempt++) {
+        const w = 70 + rng() * 90;
+        const x = w / 2 + 10 + rng() * (PLANE_LENGTH - w - 20);
+        const y = 60 + rng() * (PLANE_HEIGHT - 120);
+        if (placed.some((o) => Math.abs(o.x - x) < (o.w + w) / 2 + 30 && Math.abs(o.y - y) < 90)) continue;
+        placed.push({ x, y, w });
+        break;
+      }
+    }
+
+    for (const island of placed) {
+      // Built on its own so slicing its top can't eat into a neighbour.
+      const own = createTerrainBitmap();
+      const n = 3 + Math.floor(rng() * 2);
+      const r = island.w / (n + 1);
+      for (let k = 0; k < n; k++) {
+        const c: TerrainCircle = {
+          x: island.x - island.w / 2 + r + (k * (island.w - 2 * r)) / Math.max(1, n - 1),
+          y: island.y + (rng() - 0.5) * r * 0.4,
+          r: r * (0.9 + rng() * 0.4),
+        };
+        circles.push(c);
+        fillBitmapCircle(own, c);
+      }
+      const top = island.y - r * 0.35;
+      carveBitmapRect(own, { x: island.x - island.w, y: top - 2 * r, w: island.w * 2, h: 2 * r });
+      for (let i = 0; i < bitmap.bits.length; i++) bitmap.bits[i]! |= own.bits[i]!;
+    }
+
+    return { circles, bitmap };
+  },
+};
+
+// Nothing at all: for practising functions without terrain in the way.
+const sandboxGenerator: TerrainGenerator = {
+  style: "sandbox",
+  generate() {
+    return { circles: [], bitmap: createTerrainBitmap() };
+  },
+};
+
+export const TERRAIN_GENERATORS: Record<MapStyle, TerrainGenerator> = {
+  moon: moonGenerator,
+  hills: hillsGenerator,
+  maze: mazeGenerator,
+  islands: islandsGenerator,
+  sandbox: sandboxGenerator,
+};
+
+// Distance from every pixel to the nearest solid one (two-pass chamfer; close enough to Euclidean here).
+function clearanceMap(bitmap: TerrainBitmap): Float32Array {
+  const { width, height } = bitmap;
+  const d = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) d[y * width + x] = bitmapSolidAt(bitmap, x, y) ? 0 : Number.POSITIVE_INFINITY;
+  }
+
+  const relax = (i: number, j: number, cost: number) => {
+    if (d[j]! + cost < d[i]!) d[i] = d[j]! + cost;
+  };
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      if (x > 0) relax(i, i - 1, 1);
+      if (y > 0) {
+        relax(i, i - width, 1);
+        if (x > 0) relax(i, i - width - 1, Math.SQRT2);
+        if (x < width - 1) relax(i, i - width + 1, Math.SQRT2);
+      }
+    }
+  }
+  for (let y = height - 1; y >= 0; y--) {
+    for (let x = width - 1; x >= 0; x--) {
+      const i = y * width + x;
+      if (x < width - 1) relax(i, i + 1, 1);
+      if (y < height - 1) {
+        relax(i, i + width, 1);
+        if (x < width - 1) relax(i, i + width + 1, Math.SQRT2);
+        if (x > 0) relax(i, i + width - 1, Math.SQRT2);
+      }
+    }
+  }
+  return d;
+}
+
+// Spawns every soldier clear of terrain, whatever generator (or map editor) made the map.
+// Without a layout, each team spawns on its own half. With one, a team's fixed spawns are used first,
+// then its zones; a team without zones falls back to its half. When rejection sampling can't find a
+// clear spot, or a fixed spawn sits in terrain, a clearing is carved around it, so a spawn is never
+// inside terrain.
+export function placeSoldiers(
+  terrain: TerrainState,
+  players: PlayerGameState[],
+  rng: () => number,
+  layout?: SpawnLayout,
+): void {
+  const { PLANE_LENGTH, PLANE_HEIGHT, SOLDIER_RADIUS, SOLDIER_SELECTION_RADIUS } = GAME_CONSTANTS;
+  const MIN_SOLDIER_SPACING = SOLDIER_SELECTION_RADIUS * 2; // feels natural and avoids stacking
+  const TERRAIN_CLEARANCE = SOLDIER_SELECTION_RADIUS + 10;
+
+  // Keep a buffer near the midline so both teams don't spawn on top of each other.
+  const CENTER_BUFFER = 35;
+  const half = PLANE_LENGTH / 2;
+
+  // Crowded maps (8 players x 4 soldiers) may not fit every constraint; cap the rejection sampling.
+  const MAX_TRIES_PER_SOLDIER = 5000;
+
+  // Carving only ever adds room, so the map stays a safe (if slightly pessimistic) guide after it.
+  const clearance = clearanceMap(terrain.bitmap);
+  const placed: Point[] = [];
+
+  const clearOfTerrain = (s: Point) => clearance[s.y * terrain.bitmap.width + s.x]! >= TERRAIN_CLEARANCE;
+  const fits = (s: Point) =>
+    clearOfTerrain(s) &&
+    placed.every((o) => {
+      const dx = o.x - s.x;
+      const dy = o.y - s.y;
+      return dx * dx + dy * dy >= MIN_SOLDIER_SPACING * MIN_SOLDIER_SPACING;
+    });
+
+  const fixedLeft = (team: GameTeam) => (layout?.fixedSpawns ?? []).filter((f) => f.team === team);
+  const fixedByTeam = { 1: fixedLeft(1), 2: fixedLeft(2) };
+
+  const sampleIn = (team: GameTeam): Point => {
+    const zones = (layout?.spawnZones ?? []).filter((z) => z.team === team);
+    if (zones.length) {
+      // Pick a zone weighted by area, so small zones don't get crowded.
+      let pick = rng() * zones.reduce((sum, z) => sum + z.w * z.h, 0);
+      const zone = zones.find((z) => (pick -= z.w * z.h) < 0) ?? zones[zones.length - 1]!;
+      return {
+        x: Math.min(PLANE_LENGTH - 1, Math.floor(zone.x + rng() * zone.w)),
+        y: Math.min(PLANE_HEIGHT - 1, Math.floor(zone.y + rng() * zone.h)),
+      };
+    }
+    let x = Math.floor(rng() * (PLANE_LENGTH / 2 - CENTER_BUFFER - 2 * SOLDIER_RADIUS)) + SOLDIER_RADIUS;
+    const y = Math.floor(rng() * (PLANE_HEIGHT - 2 * SOLDIER_RADIUS)) + SOLDIER_RADIUS;
+    if (team === 2) x += half + CENTER_BUFFER;
+    return { x, y };
+  };
+
+  for (const p of players) {
+    for (let i = 0; i < p.soldiers.length; i++) {
+      const fixed = fixedByTeam[p.team].shift();
+      let s: Point;
+      let ok: boolean;
+      if (fixed) {
+        s = { x: Math.min(PLANE_LENGTH - 1, Math.floor(fixed.x)), y: Math.min(PLANE_HEIGHT - 1, Math.floor(fixed.y)) };
+        ok = clearOfTerrain(s);
+      } else {
+        let tries = 0;
+        do {
+          s = sampleIn(p.team);
+          ok = fits(s);
+        } while (!ok && ++tries < MAX_TRIES_PER_SOLDIER);
+      }
+
+      if (!ok) carveBitmapCircle(terrain.bitmap, { x: s.x, y: s.y, r: TERRAIN_CLEARANCE });
+
+      placed.push(s);
+      p.soldiers[i] = { x: s.x, y: s.y, angle: 0, alive: true };
+    }
+  }
+}
@@ -1,8 +1,8 @@
 import { GAME_CONSTANTS, type GameMode } from "../gameConstants";
 import type { Point } from "../math/types";
-import { parseToPolishTokens } from "../function/parse";
-import { evaluatePolish } from "../function/evaluate";
-import { collidePoint, type TerrainState } from "./terrain";
+import { parseShotFunction } from "../function/parse";
+import { compilePolish, type CompiledFunction } from "../function/compile";
+import { collideSegment, segmentDistanceSquared, type TerrainState } from "./terrain";
 
 export type SoldierState = {
   x: number;
@@ -19,12 +19,17 @@ export type PlayerGameState = {
   currentTurnSoldier: number;
 };
 
+// Why a shot stopped: it struck terrain, left the plane, its function ended (no number, no step
+// small enough, or the curve parameter ran out), or it used up every step.
+export type ShotEndReason = "terrain" | "bounds" | "function_end" | "max_steps";
+
 export type ShotResult = {
   fireAngle: number;
   path: Point[];
   lastPoint: Point;
   explosion: { x: number; y: number; r: number };
   hits: Array<{ targetClientId: string; soldierIndex: number; killStep: number }>;
+  endReason: ShotEndReason;
 };
 
 function toGameCoords(p: Point, inverted: boolean): Point {
@@ -130,11 +135,72 @@ export function simulateShot(args: {
   if (!shooterSoldier || !shooterSoldier.alive) throw new Error("Shooter has no alive soldier");
 
   const inverted = shooter.team === 2;
-  const polish = parseToPolishTokens(functionString);
+  // Parse and compile once; every sample below is just a closure call.
+  // Parametric shots compile to two functions of t; every other mode to one.
+  const [evaluate, evaluateSecond] = parseShotFunction(mode, functionString).map(compilePolish) as [
+    CompiledFunction,
+    CompiledFunction | undefined,
+  ];
 
   const path: Point[] = new Array(MAX_STEPS);
   const hits: ShotResult["hits"] = [];
 
+  // Marks every other alive soldier whose disc the segment from→to passes through as hit at `step`.
+  const recordSoldierHits = (from: Point, to: Point, step: number) => {
+    for (let pj = 0; pj < players.length; pj++) {
+      const pl = players[pj]!;
+      for (let si = 0; si < pl.soldiers.length; si++) {
+        if (pj === currentTurnIndex && si === shooter.currentTurnSoldier) continue;
+        const s = pl.soldiers[si]!;
+        if (!s.alive) continue;
+
+        if (segmentDistanceSquared(from, to, s) < SOLDIER_RADIUS * SOLDIER_RADIUS) {
+          if (!alreadyHit(hits, pl.clientId, si)) {
+            hits.push({ targetClientId: pl.clientId, soldierIndex: si, killStep: step });
+          }
+        }
+      }
+    }
+  };
+
+  let endReason: ShotEndReason = "max_steps";
+
+  // Moves the shot from path[step - 1] to `pixel`, testing the whole segment rather than its end point:
+  // it hits soldiers it passes through and is cut short at the first terrain or plane-edge contact.
+  // Returns false once the shot has stopped; the path then ends at the contact point.
+  const sweepTo = (pixel: Point, step: number): boolean => {
+    if (!Number.isFinite(pixel.x) || !Number.isFinite(pixel.y)) {
+      endReason = "function_end";
+      path.length = step;
+      return false;
+    }
+
+    const from = path[step - 1]!;
+    const contact = collideSegment(terrain, from, pixel);
+    const to = contact
+      ? { x: from.x + (pixel.x - from.x) * contact.t, y: from.y + (pixel.y - from.y) * contact.t }
+      : pixel;
+    recordSoldierHits(from, to, step);
+    path[step] = to;
+    if (!contact) return true;
+
+    endReason = contact.kind;
+    path.length = step + 1;
+    return false;
+  };
+
+  const finish = (): ShotResult => {
+    const lastPoint = path[path.length - 1]!;
+    return {
+      fireAngle,
+      path: path as Point[],
+      lastPoint,
+      explosion: { x: lastPoint.x, y: lastPoint.y, r: EXPLOSION_RADIUS },
+      hits,
+      endReason,
+    };
+  };
+
   const startPx: Point = { x: shooterSoldier.x, y: shooterSoldier.y };
   const originGame = toGameCoords(startPx, inverted);
   let p0 = originGame;
@@ -147,7 +213,7 @@ export function simulateShot(args: {
     // Interpret the user's function in LOCAL coordinates (x=0 at the shooter).
     // This matches Graphwar intuition: x^2 always gives a parabola from the soldier,
     // independent of the soldier's absolute map position.
-    const evalAtLocal = (xLocal: number) => evaluatePolish(polish, xLocal, 0, 0);
+    const evalAtLocal = (xLocal: number) => evaluate(xLocal, 0, 0);
 
     fireAngle = getStartAngleNormal(evalAtLocal, 0, gameRadius);
 
@@ -161,8 +227,6 @@ export function simulateShot(args: {
     // Keep simulation in LOCAL game coordinates; convert to world pixels for collision/render.
     path[0] = toPixelCoords({ x: originGame.x + prevLocal.x, y: originGame.y + (evalAtLocal(prevLocal.x) + offSet) }, inverted);
 
-    let numSteps: number = MAX_STEPS;
-
     for (let i = 1; i < MAX_STEPS; i++) {
       let h = STEP_SIZE;
       let x = prevLocal.x + h;
@@ -185,59 +249,106 @@ export function simulateShot(args: {
       }
 
       if (endFunc) {
-        numSteps = i;
-        path.length = numSteps;
+        endReason = "function_end";
+        path.length = i;
         break;
       }
 
       prevLocal = { x, y };
       const pixel = toPixelCoords({ x: originGame.x + x, y: originGame.y + y }, inverted);
-      path[i] = pixel;
-
-      // collisions with soldiers
-      for (let pj = 0; pj < players.length; pj++) {
-        const pl = players[pj]!;
-        for (let si = 0; si < pl.soldiers.length; si++) {
-          if (pj === currentTurnIndex && si === shooter.currentTurnSoldier) continue;
-          const s = pl.soldiers[si]!;
-          if (!s.alive) continue;
-
-          const dx = s.x - pixel.x;
-          const dy = s.y - pixel.y;
-          if (dx * dx + dy * dy < SOLDIER_RADIUS * SOLDIER_RADIUS) {
-            if (!alreadyHit(hits, pl.clientId, si)) {
-              hits.push({ targetClientId: pl.clientId, soldierIndex: si, killStep: i });
-            }
-          }
+      if (!sweepTo(pixel, i)) break;
+    }
+
+    return finish();
+  }
+
+  // Parametric and polar shots trace a curve through LOCAL game coordinates by stepping its parameter,
+  // so they may turn back, loop or climb vertically. `localAt(tStart)` must be the shooter, (0, 0).
+  const traceCurve = (localAt: (t: number) => Point, tStart: number, tMax: number): ShotResult => {
+    const { PARAMETRIC_MAX_STEP } = GAME_CONSTANTS;
+    let t = tStart;
+    let h: number = STEP_SIZE;
+    let prev: Point = { x: 0, y: 0 };
+    let numSteps = 0;
+
+    // Bounded even for curves that never leave the soldier or crawl along with tiny steps.
+    for (let iter = 0; numSteps < MAX_STEPS && t < tMax && iter < MAX_STEPS * 4; iter++) {
+      let next = localAt(t + h);
+
+      // adaptive step size to keep distance bounded (NaN distances also end the curve here)
+      let endFunc = false;
+      for (;;) {
+        const dx = next.x - prev.x;
+        const dy = next.y - prev.y;
+        if (dx * dx + dy * dy <= FUNC_MAX_STEP_DISTANCE_SQUARED) break;
+        if (h > FUNC_MIN_X_STEP_DISTANCE) {
+          h = h / 2;
+          next = localAt(t + h);
+        } else {
+          endFunc = true;
+          break;
         }
       }
+      if (endFunc) break;
 
-      if (collidePoint(terrain, pixel)) {
-        numSteps = i;
-        path.length = numSteps;
-        break;
+      t += h;
+      prev = next;
+      // Let slow stretches of the curve speed up again.
+      h = Math.min(h * 2, PARAMETRIC_MAX_STEP);
+
+      // The shot leaves from where the curve first crosses the soldier's radius.
+      if (numSteps === 0) {
+        if (prev.x * prev.x + prev.y * prev.y < gameRadius * gameRadius) continue;
+        fireAngle = Math.atan2(prev.y, prev.x);
       }
 
-      if (!Number.isFinite(pixel.y)) {
-        numSteps = i;
-        path.length = numSteps;
-        break;
+      const pixel = toPixelCoords({ x: originGame.x + prev.x, y: originGame.y + prev.y }, inverted);
+      if (numSteps === 0) {
+        path[0] = pixel;
+      } else if (!sweepTo(pixel, numSteps)) {
+        return finish();
       }
+      numSteps++;
     }
 
-    const lastPoint = path[path.length - 1]!;
-    return {
-      fireAngle,
-      path: path as Point[],
-      lastPoint,
-      explosion: { x: lastPoint.x, y: lastPoint.y, r: EXPLOSION_RADIUS },
-      hits,
+    if (numSteps === 0) {
+      // Never made it out of the shooter's own radius.
+      path[0] = toPixelCoords(originGame, inverted);
+      numSteps = 1;
+    }
+    if (numSteps < MAX_STEPS) endReason = "function_end";
+    path.length = numSteps;
+
+    return finish();
+  };
+
+  if (mode === "parametric") {
+    // (x(t), y(t)), shifted so t=0 sits on the shooter.
+    const xAt = (t: number) => evaluate(t, 0, 0);
+    const yAt = (t: number) => evaluateSecond!(t, 0, 0);
+    const x0 = xAt(0);
+    const y0 = yAt(0);
+    return traceCurve((t) => ({ x: xAt(t) - x0, y: yAt(t) - y0 }), 0, GAME_CONSTANTS.PARAMETRIC_T_MAX);
+  }
+
+  if (mode === "polar") {
+    // r(θ) around the shooter, θ measured from the forward direction. When r(0) is not 0 the shot
+    // first travels straight out along θ=0 (parameter -1..0) instead of jumping onto the curve.
+    const polarAt = (theta: number): Point => {
+      const r = evaluate(theta, 0, 0);
+      return { x: r * Math.cos(theta), y: r * Math.sin(theta) };
     };
+    const start = polarAt(0);
+    return traceCurve(
+      (t) => (t < 0 ? { x: start.x * (t + 1), y: start.y * (t + 1) } : polarAt(t)),
+      -1,
+      GAME_CONSTANTS.POLAR_THETA_MAX,
+    );
   }
 
   if (mode === "fst_ode") {
     // dy/dx = f(x, y)
-    const f = (xLocal: number, yLocal: number) => evaluatePolish(polish, xLocal, yLocal, 0);
+    const f = (xLocal: number, yLocal: number) => evaluate(xLocal, yLocal, 0);
 
     fireAngle = getRK4StartAngle(f, 0, 0, gameRadius);
 
@@ -247,8 +358,6 @@ export function simulateShot(args: {
     };
     path[0] = toPixelCoords({ x: originGame.x + prev.x, y: originGame.y + prev.y }, inverted);
 
-    let numSteps: number = MAX_STEPS;
-
     for (let i = 1; i < MAX_STEPS; i++) {
       let h = STEP_SIZE;
 
@@ -277,51 +386,22 @@ export function simulateShot(args: {
       }
 
       if (endFunc) {
-        numSteps = i;
-        path.length = numSteps;
+        endReason = "function_end";
+        path.length = i;
         break;
       }
 
       prev = next;
       const pixel = toPixelCoords({ x: originGame.x + prev.x, y: originGame.y + prev.y }, inverted);
-      path[i] = pixel;
-
-      for (let pj = 0; pj < players.length; pj++) {
-        const pl = players[pj]!;
-        for (let si = 0; si < pl.soldiers.length; si++) {
-          if (pj === currentTurnIndex && si === shooter.currentTurnSoldier) continue;
-          const s = pl.soldiers[si]!;
-          if (!s.alive) continue;
-          const dx = s.x - pixel.x;
-          const dy = s.y - pixel.y;
-          if (dx * dx + dy * dy < SOLDIER_RADIUS * SOLDIER_RADIUS) {
-            if (!alreadyHit(hits, pl.clientId, si)) {
-              hits.push({ targetClientId: pl.clientId, soldierIndex: si, killStep: i });
-            }
-          }
-        }
-      }
-
-      if (collidePoint(terrain, pixel) || !Number.isFinite(pixel.y)) {
-        numSteps = i;
-        path.length = numSteps;
-        break;
-      }
+      if (!sweepTo(pixel, i)) break;
     }
 
-    const lastPoint = path[path.length - 1]!;
-    return {
-      fireAngle,
-      path: path as Point[],
-      lastPoint,
-      explosion: { x: lastPoint.x, y: lastPoint.y, r: EXPLOSION_RADIUS },
-      hits,
-    };
+    return finish();
   }
 
   // snd_ode: y'' = f(x, y, y') with initial angle from soldier
   {
-    const f = (xLocal: number, yLocal: number, dyLocal: number) => evaluatePolish(polish, xLocal, yLocal, dyLocal);
+    const f = (xLocal: number, yLocal: number, dyLocal: number) => evaluate(xLocal, yLocal, dyLocal);
 
     // Use shooter-relative coordinates for consistency with other modes.
     const angle = shooterSoldier.angle;
@@ -336,8 +416,6 @@ export function simulateShot(args: {
 
     path[0] = toPixelCoords({ x: originGame.x + g.x, y: originGame.y + g.y }, inverted);
 
-    let numSteps: number = MAX_STEPS;
-
     for (let i = 1; i < MAX_STEPS; i++) {
       let h = STEP_SIZE;
 
@@ -398,8 +476,8 @@ export function simulateShot(args: {
       }
 
       if (endFunc) {
-        numSteps = i;
-        path.length = numSteps;
+        endReason = "function_end";
+        path.length = i;
         break;
       }
 
@@ -407,38 +485,9 @@ export function simulateShot(args: {
       dy = next.dy;
 
       const pixel = toPixelCoords({ x: originGame.x + g.x, y: originGame.y + g.y }, inverted);
-      path[i] = pixel;
-
-      for (let pj = 0; pj < players.length; pj++) {
-        const pl = players[pj]!;
-        for (let si = 0; si < pl.soldiers.length; si++) {
-          if (pj === currentTurnIndex && si === shooter.currentTurnSoldier) continue;
-          const s = pl.soldiers[si]!;
-          if (!s.alive) continue;
-          const dx = s.x - pixel.x;
-          const dyP = s.y - pixel.y;
-          if (dx * dx + dyP * dyP < SOLDIER_RADIUS * SOLDIER_RADIUS) {
-            if (!alreadyHit(hits, pl.clientId, si)) {
-              hits.push({ targetClientId: pl.clientId, soldierIndex: si, killStep: i });
-            }
-          }
-        }
-      }
-
-      if (collidePoint(terrain, pixel) || !Number.isFinite(pixel.y)) {
-        numSteps = i;
-        path.length = numSteps;
-        break;
-      }
+      if (!sweepTo(pixel, i)) break;
     }
 
-    const lastPoint = path[path.length - 1]!;
-    return {
-      fireAngle,
-      path: path as Point[],
-      lastPoint,
-      explosion: { x: lastPoint.x, y: lastPoint.y, r: EXPLOSION_RADIUS },
-      hits,
-    };
+    return finish();
   }
 }
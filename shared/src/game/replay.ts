@@ -0,0 +1,86 @@
+import type { MatchReplay, ReplayShotEvent } from "../index";
+import { simulateShot, type PlayerGameState, type ShotResult } from "./physics";
+import { cloneTerrainBitmap } from "./bitmap";
+import { carveTerrain, deserializeTerrain, type TerrainState } from "./terrain";
+
+export type ReplayTurn = {
+  event: ReplayShotEvent;
+  // Board as it was when the shot was fired (before its kills and crater are applied).
+  terrain: TerrainState;
+  players: PlayerGameState[];
+  currentTurnIndex: number;
+  shot: ShotResult;
+  enemyHits: ShotResult["hits"];
+};
+
+function clonePlayers(players: PlayerGameState[]): PlayerGameState[] {
+  return players.map((p) => ({ ...p, soldiers: p.soldiers.map((s) => ({ ...s })) }));
+}
+
+export function simulateReplay(replay: MatchReplay): ReplayTurn[] {
+  let terrain: TerrainState = deserializeTerrain(replay.terrain);
+  const players: PlayerGameState[] = replay.spawns.map((p) => ({
+    clientId: p.clientId,
+    name: p.name,
+    team: p.team,
+    soldiers: p.soldiers.map((s) => ({ x: s.x, y: s.y, angle: 0, alive: true })),
+    currentTurnSoldier: 0,
+  }));
+
+  const turns: ReplayTurn[] = [];
+
+  for (const ev of replay.events) {
+    if (ev.kind === "surrender") {
+      const p = players.find((pl) => pl.clientId === ev.clientId);
+      if (p) for (const s of p.soldiers) s.alive = false;
+      continue;
+    }
+
+    const currentTurnIndex = players.findIndex((p) => p.clientId === ev.byClientId);
+    const shooter = players[currentTurnIndex];
+    const soldier = shooter?.soldiers[ev.soldierIndex];
+    if (!shooter || !soldier || !soldier.alive) continue;
+
+    shooter.currentTurnSoldier = ev.soldierIndex;
+    soldier.angle = ev.angle;
+
+    let shot: ShotResult;
+    try {
+      shot = simulateShot({
+        mode: ev.mode,
+        functionString: ev.functionString,
+        terrain,
+        players,
+        currentTurnIndex,
+      });
+    } catch {
+      // The server only records shots that simulated fine; skip anything that no longer does.
+      continue;
+    }
+
+    // Same friendly-fire rule as the server: only enemy hits kill.
+    const enemyHits = shot.hits.filter((h) => {
+      const target = players.find((p) => p.clientId === h.targetClientId);
+      return !!target && target.team !== shooter.team;
+    });
+
+    turns.push({
+      event: ev,
+      terrain,
+      players: clonePlayers(players),
+      currentTurnIndex,
+      shot,
+      enemyHits,
+    });
+
+    for (const h of enemyHits) {
+      const s = players.find((p) => p.clientId === h.targetClientId)?.soldiers[h.soldierIndex];
+      if (s) s.alive = false;
+    }
+    // Carving is in place, so each turn keeps its own copy of the bitmap.
+    terrain = { circles: terrain.circles, bitmap: cloneTerrainBitmap(terrain.bitmap) };
+    carveTerrain(terrain, shot.explosion);
+  }
+
+  return turns;
+}
@@ -1,37 +1,97 @@
-import { GAME_CONSTANTS } from "../gameConstants";
 import type { Point } from "../math/types";
+import {
+  bitmapFromCircles,
+  bitmapSolidAt,
+  carveBitmapCircle,
+  decodeTerrainBitmap,
+  encodeTerrainBitmap,
+  type TerrainBitmap,
+} from "./bitmap";
 
 export type TerrainCircle = { x: number; y: number; r: number };
 export type ExplosionHole = { x: number; y: number; r: number };
 
+// The bitmap is the terrain; `circles` records how it was filled (for drawing and hint prompts).
 export type TerrainState = {
   circles: TerrainCircle[];
-  holes: ExplosionHole[];
+  bitmap: TerrainBitmap;
 };
 
+// How terrain travels in RoomState.
+export type SerializedTerrain = { circles: TerrainCircle[]; bitmap: string };
+
+export function terrainFromCircles(circles: TerrainCircle[]): TerrainState {
+  return { circles, bitmap: bitmapFromCircles(circles) };
+}
+
+export function carveTerrain(terrain: TerrainState, hole: ExplosionHole): void {
+  carveBitmapCircle(terrain.bitmap, hole);
+}
+
+export function serializeTerrain(terrain: TerrainState): SerializedTerrain {
+  return { circles: terrain.circles, bitmap: encodeTerrainBitmap(terrain.bitmap) };
+}
+
+export function deserializeTerrain(terrain: SerializedTerrain): TerrainState {
+  return { circles: terrain.circles, bitmap: decodeTerrainBitmap(terrain.bitmap) };
+}
+
+// Pixel (x, y) is solid terrain, or off the plane.
+function blockedAt(terrain: TerrainState, x: number, y: number): "terrain" | "bounds" | null {
+  const { bitmap } = terrain;
+  if (x < 0 || x >= bitmap.width || y < 0 || y >= bitmap.height) return "bounds";
+  return bitmapSolidAt(bitmap, x, y) ? "terrain" : null;
+}
+
 export function collidePoint(terrain: TerrainState, p: Point): boolean {
-  const { PLANE_LENGTH, PLANE_HEIGHT } = GAME_CONSTANTS;
-
-  if (p.x < 0 || p.x >= PLANE_LENGTH) return true;
-  if (p.y < 0 || p.y >= PLANE_HEIGHT) return true;
-
-  // Java terrain is a bitmap where obstacles are filled circles.
-  // We approximate it as geometric circles minus explosion holes.
-  for (const c of terrain.circles) {
-    const dx = p.x - c.x;
-    const dy = p.y - c.y;
-    if (dx * dx + dy * dy <= c.r * c.r) {
-      // inside obstacle circle; check if carved by any hole
-      for (const h of terrain.holes) {
-        const hx = p.x - h.x;
-        const hy = p.y - h.y;
-        if (hx * hx + hy * hy <= h.r * h.r) {
-          return false;
-        }
-      }
-      return true;
+  return blockedAt(terrain, Math.floor(p.x), Math.floor(p.y)) !== null;
+}
+
+// Where a segment first becomes solid: `t` in [0, 1] along a→b, and whether it left the plane
+// or struck terrain. Unlike sampling with collidePoint, one-pixel walls can't be stepped over.
+export type SegmentContact = { t: number; kind: "terrain" | "bounds" };
+
+export function segmentDistanceSquared(a: Point, b: Point, p: Point): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const len2 = dx * dx + dy * dy;
+  const t = len2 > 0 ? Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / len2)) : 0;
+  const ex = a.x + dx * t - p.x;
+  const ey = a.y + dy * t - p.y;
+  return ex * ex + ey * ey;
+}
+
+export function collideSegment(terrain: TerrainState, a: Point, b: Point): SegmentContact | null {
+  let cx = Math.floor(a.x);
+  let cy = Math.floor(a.y);
+  const first = blockedAt(terrain, cx, cy);
+  if (first) return { t: 0, kind: first };
+
+  // Walk every pixel the segment passes through, in order (Amanatides & Woo grid traversal).
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const stepX = dx > 0 ? 1 : -1;
+  const stepY = dy > 0 ? 1 : -1;
+  const tDeltaX = dx !== 0 ? Math.abs(1 / dx) : Number.POSITIVE_INFINITY;
+  const tDeltaY = dy !== 0 ? Math.abs(1 / dy) : Number.POSITIVE_INFINITY;
+  let tMaxX = dx !== 0 ? ((dx > 0 ? cx + 1 : cx) - a.x) / dx : Number.POSITIVE_INFINITY;
+  let tMaxY = dy !== 0 ? ((dy > 0 ? cy + 1 : cy) - a.y) / dy : Number.POSITIVE_INFINITY;
+
+  for (;;) {
+    const t = Math.min(tMaxX, tMaxY);
+    if (t > 1) return null;
+
+    // Passing exactly through a pixel corner moves diagonally without touching either side pixel.
+    if (tMaxX <= tMaxY) {
+      cx += stepX;
+      tMaxX += tDeltaX;
+    }
+    if (tMaxY <= t) {
+      cy += stepY;
+      tMaxY += tDeltaY;
     }
-  }
 
-  return false;
+    const kind = blockedAt(terrain, cx, cy);
+    if (kind) return { t, kind };
+  }
 }
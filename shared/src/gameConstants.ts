@@ -4,6 +4,7 @@ export const GAME_CONSTANTS = {
   PLANE_GAME_LENGTH: 50,
 
   SOLDIER_RADIUS: 7,
+  MAX_SOLDIERS_PER_PLAYER: 4,
   SOLDIER_SELECTION_RADIUS: 15,
 
   EXPLOSION_RADIUS: 12,
@@ -12,11 +13,20 @@ export const GAME_CONSTANTS = {
   NEXT_TURN_DELAY_MS: 3000, // delay after explosion before next turn (Java: NEXT_TURN_DELAY)
 
   TURN_TIME_MS: 60_000, // per-turn time limit (Java: TURN_TIME)
+  RECONNECT_GRACE_MS: 90_000, // how long a dropped player's seat is held for session.resume
+
+  MAX_HINTS_PER_MATCH: 20, // RoomConfig.hintsPerMatch upper bound (0 is unlimited)
+  MAX_HINT_COOLDOWN_TURNS: 5, // RoomConfig.hintCooldownTurns upper bound (0 is no cooldown)
+
+  MAX_LIST_TOP: 50, // most rows a stats.get/maps.list/maps.search `top` may ask for
 
   FUNC_MAX_STEPS: 20000,
   FUNC_MAX_STEP_DISTANCE_SQUARED: 0.001,
   FUNC_MIN_X_STEP_DISTANCE: 0.00001,
   STEP_SIZE: 0.01,
+  PARAMETRIC_MAX_STEP: 0.64, // largest t (or θ) step a parametric/polar shot may grow to on slow curves
+  PARAMETRIC_T_MAX: 1000, // parametric shots end once t passes this
+  POLAR_THETA_MAX: 4 * Math.PI, // polar shots end after two full turns
 
   ANGLE_ERROR: Math.PI / 360,
   MAX_ANGLE_LOOPS: 100,
@@ -27,4 +37,18 @@ export const GAME_CONSTANTS = {
   NUM_CIRCLES_STANDARD_DEVIATION: 7,
 } as const;
 
-export type GameMode = "normal" | "fst_ode" | "snd_ode";
+// parametric: "x(t); y(t)" in shooter-local coordinates, so shots can loop back or go straight up.
+// polar: "r(θ)" around the shooter, so shots can spiral or arc around terrain.
+export type GameMode = "normal" | "fst_ode" | "snd_ode" | "parametric" | "polar";
+
+export const GAME_MODES: readonly GameMode[] = ["normal", "fst_ode", "snd_ode", "parametric", "polar"];
+
+// How a match's terrain is generated (see TERRAIN_GENERATORS); "sandbox" is an empty plane.
+export type MapStyle = "moon" | "hills" | "maze" | "islands" | "sandbox";
+
+export const MAP_STYLES: readonly MapStyle[] = ["moon", "hills", "maze", "islands", "sandbox"];
+
+// How well a bot plays: how deep it searches for a shot and how far its aim strays.
+export type BotDifficulty = "easy" | "medium" | "hard" | "perfect";
+
+export const BOT_DIFFICULTIES: readonly BotDifficulty[] = ["easy", "medium", "hard", "perfect"];
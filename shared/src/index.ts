@@ -2,9 +2,16 @@ export type RoomSummary = {
   id: string;
   name: string;
   numPlayers: number;
+  numSpectators: number;
   gameState: "lobby" | "in_game";
   preset: MatchPreset;
   difficulty: DifficultyMode;
+  mode: import("./gameConstants").GameMode;
+  perTurnMode: boolean;
+  mapStyle: import("./gameConstants").MapStyle;
+  customMapName: string | null;
+  // One entry per bot seated in the room.
+  botDifficulties: import("./gameConstants").BotDifficulty[];
   maxPlayers: number;
 };
 
@@ -15,8 +22,24 @@ export type RoomConfig = {
   preset: MatchPreset;
   difficulty: DifficultyMode;
   maxPlayers: number;
+  soldiersPerPlayer: number; // 1..GAME_CONSTANTS.MAX_SOLDIERS_PER_PLAYER
+  // Match-wide function mode, chosen by the owner in the lobby.
+  mode: import("./gameConstants").GameMode;
+  // Rule variant: each shooter may pick the mode for their own shot; it resets to `mode` every turn.
+  perTurnMode: boolean;
+  // Which TerrainGenerator builds the map.
+  mapStyle: import("./gameConstants").MapStyle;
+  // Practice hints: how many each player may take per match (0: unlimited), how many of their own
+  // turns must pass after one before the next, and how much of a point a kill made on a hinted turn
+  // loses in the end-of-game score (0: none, 1: hinted kills score nothing).
+  hintsPerMatch: number;
+  hintCooldownTurns: number;
+  hintKillPenalty: number;
 };
 
+// What clients may set; maxPlayers is always derived from the preset.
+export type RoomConfigInput = Partial<Omit<RoomConfig, "maxPlayers">>;
+
 export type HintRequestPayload = {
   shooter: { x: number; y: number };
   target: { x: number; y: number };
@@ -42,6 +65,15 @@ export type PlayerState = {
   name: string;
   ready: boolean;
   isBot?: boolean;
+  // Set for bots only.
+  botDifficulty?: import("./gameConstants").BotDifficulty;
+  // false while the player's socket is down and their seat is held for reconnection.
+  connected?: boolean;
+};
+
+export type SpectatorState = {
+  clientId: string;
+  name: string;
 };
 
 export type RoomState = {
@@ -50,7 +82,11 @@ export type RoomState = {
   ownerClientId: string;
   config: RoomConfig;
   players: PlayerState[];
+  // Sockets watching the room; never part of game.players, turns, hints or stats.
+  spectators: SpectatorState[];
   gameState: "lobby" | "in_game";
+  // Loaded by the owner with room.setMap; replaces the generated map until cleared.
+  customMap: import("./game/customMap").CustomMap | null;
   lastGameOver?: LastGameOver;
   game?: GameState;
 };
@@ -61,6 +97,21 @@ export type LastGameOver = {
   winnerTeam: GameTeam | null;
   winners: Array<{ clientId: string; name: string; team: GameTeam }>;
   endedAt: number;
+  seed: number;
+  // Every player of the match, with their score: one point per kill, less hintKillPenalty per hinted kill.
+  players: GameOverPlayerSummary[];
+  hintKillPenalty: number;
+};
+
+export type GameOverPlayerSummary = {
+  clientId: string;
+  name: string;
+  team: GameTeam;
+  kills: number;
+  hintsUsed: number;
+  // Kills made on a turn the shooter took a hint.
+  hintedKills: number;
+  score: number;
 };
 
 export type GameSoldier = {
@@ -76,15 +127,23 @@ export type GamePlayer = {
   team: GameTeam;
   soldiers: GameSoldier[];
   currentTurnSoldier: number;
+  // Live matches only: hints taken this match, and how many more of their own turns (counting the
+  // current or last one) go by before the next hint is allowed.
+  hintsUsed?: number;
+  hintCooldownTurns?: number;
 };
 
 export type TerrainCircle = { x: number; y: number; r: number };
 export type ExplosionHole = { x: number; y: number; r: number };
 
 export type GameState = {
+  // Mode the current shot will use (RoomConfig.mode unless the shooter changed it under perTurnMode).
   mode: import("./gameConstants").GameMode;
+  // Match seed: terrain and soldier spawns are fully reproducible from it.
+  seed: number;
   difficulty: DifficultyMode;
-  terrain: { circles: TerrainCircle[]; holes: ExplosionHole[] };
+  // Circles plus the carved bitmap, run-length encoded (see encodeTerrainBitmap).
+  terrain: { circles: TerrainCircle[]; bitmap: string };
   currentTurnClientId: string;
   timeTurnStarted: number;
   players: GamePlayer[];
@@ -92,6 +151,7 @@ export type GameState = {
   lastShot?: {
     byClientId: string;
     functionString: string;
+    mode: import("./gameConstants").GameMode;
     fireAngle: number;
     startedAtMs: number;
     functionVelocity: number;
@@ -101,6 +161,29 @@ export type GameState = {
   };
 };
 
+export type ReplayShotEvent = {
+  kind: "shot";
+  byClientId: string;
+  soldierIndex: number;
+  functionString: string;
+  mode: import("./gameConstants").GameMode;
+  angle: number;
+  turnStartedAtMs: number;
+  firedAtMs: number;
+};
+
+export type ReplayEvent = ReplayShotEvent | { kind: "surrender"; clientId: string; atMs: number };
+
+export type MatchReplay = {
+  seed: number;
+  startedAt: number;
+  endedAt: number;
+  mapStyle: import("./gameConstants").MapStyle;
+  terrain: { circles: TerrainCircle[]; bitmap: string };
+  spawns: Array<{ clientId: string; name: string; team: GameTeam; soldiers: Array<{ x: number; y: number }> }>;
+  events: ReplayEvent[];
+};
+
 export type PlayerStats = {
   name: string;
   totalGames: number;
@@ -110,48 +193,137 @@ export type PlayerStats = {
   bestMultiKill: number;
 };
 
-export type ClientToServerMessage =
+// A custom map stored on the server (maps table); fetch the map itself by creating a room with its id.
+export type SavedMapSummary = {
+  id: number;
+  name: string;
+  // The saver's player name at the time: a label, not proof of ownership (see maps.saved's editKey).
+  author: string;
+  playCount: number;
+  updatedAt: number;
+};
+
+export type ClientToServerMessage = (
   | { type: "hello"; name: string }
+  | { type: "session.resume"; sessionToken: string }
   | { type: "lobby.listRooms" }
   | { type: "stats.get"; top?: number }
   | {
       type: "room.create";
       name: string;
-      config?: Partial<Pick<RoomConfig, "preset" | "difficulty">>;
+      config?: RoomConfigInput;
+      // Start the room on a saved map (see maps.list).
+      mapId?: number;
     }
   | { type: "room.join"; roomId: string }
+  | { type: "room.spectate"; roomId: string }
   | { type: "room.leave" }
   | { type: "chat.send"; text: string }
   | { type: "player.ready"; ready: boolean }
-  | { type: "game.start" }
+  | { type: "game.start"; seed?: number }
   | { type: "game.surrender" }
   | { type: "game.setMode"; mode: import("./gameConstants").GameMode }
   | { type: "game.setDifficulty"; difficulty: DifficultyMode }
-  | { type: "room.setConfig"; config: Partial<Pick<RoomConfig, "preset" | "difficulty">> }
-  | { type: "room.addBot"; name?: string }
+  | { type: "room.setConfig"; config: RoomConfigInput }
+  | { type: "room.setMap"; map: import("./game/customMap").CustomMap | null }
+  | { type: "room.addBot"; name?: string; difficulty?: import("./gameConstants").BotDifficulty }
   | { type: "room.removeBot"; clientId: string }
   | { type: "hint.request"; payload?: HintRequestPayload }
+  | { type: "replay.get" }
+  | { type: "maps.list"; top?: number }
+  | { type: "maps.search"; query: string; top?: number }
+  | { type: "maps.save"; map: import("./game/customMap").CustomMap }
+  // Only the editKey handed out in maps.saved can delete a map.
+  | { type: "maps.delete"; id: number; editKey: string }
   | { type: "game.setAngle"; angle: number }
-  | { type: "game.fire"; functionString: string };
+  | { type: "game.fire"; functionString: string }
+) & {
+  // Opaque id chosen by the client; echoed back on any `error` this message causes.
+  requestId?: string;
+};
+
+export type ErrorCode =
+  | "invalid_message"
+  | "name_required"
+  | "session_expired"
+  | "not_in_room"
+  | "room_not_found"
+  | "room_full"
+  | "already_playing"
+  | "not_room_owner"
+  | "too_many_players"
+  | "bot_not_found"
+  | "spectator_forbidden"
+  | "players_not_ready"
+  | "game_in_progress"
+  | "game_not_started"
+  | "start_failed"
+  | "mode_locked"
+  | "not_your_turn"
+  | "shot_in_progress"
+  | "function_required"
+  | "malformed_function"
+  | "hints_disabled"
+  | "hint_limit_reached"
+  | "hint_cooldown"
+  | "hint_failed"
+  | "stats_unavailable"
+  | "maps_unavailable"
+  | "map_not_found"
+  | "not_map_author";
+
+export type ErrorDetails = {
+  // Dotted path of the offending field (invalid_message).
+  field?: string;
+  // Parser's own description of what went wrong, and where in functionString (malformed_function).
+  reason?: string;
+  span?: import("./function/parse").SourceSpan;
+  // Seat limit that was exceeded (too_many_players).
+  maxPlayers?: number;
+  // The room's allowance (hint_limit_reached).
+  hintsPerMatch?: number;
+  // Own turns to wait, counting the current one (hint_cooldown).
+  turnsLeft?: number;
+};
 
 export type ServerToClientMessage =
-  | { type: "welcome"; clientId: string; protocolVersion: number }
-  | { type: "error"; message: string }
+  | { type: "welcome"; clientId: string; protocolVersion: number; sessionToken: string }
+  // message is English fallback text; clients should branch on `code`.
+  | { type: "error"; code: ErrorCode; message: string; details?: ErrorDetails; requestId?: string }
   | { type: "lobby.state"; rooms: RoomSummary[] }
   | { type: "room.state"; room: RoomState | null }
   | { type: "chat.msg"; roomId: string; from: string; text: string; ts: number }
   | { type: "stats.me"; stats: PlayerStats | null }
   | { type: "stats.leaderboard"; entries: PlayerStats[] }
+  // Reply to maps.list and maps.search; `available` is false when the server has no database.
+  | { type: "maps.list"; maps: SavedMapSummary[]; query?: string; available: boolean }
+  // `editKey` is the secret that deletes this map later; the server keeps only its hash.
+  | { type: "maps.saved"; map: SavedMapSummary; editKey: string }
+  | { type: "maps.deleted"; id: number }
   | { type: "hint.progress"; attempt: number; maxAttempts: number; status: "thinking" | "done" | "error" }
-  | { type: "hint.response"; functionString: string; explanation?: string; debug?: { events: HintLlmDebugEvent[] } };
+  | {
+      type: "hint.response";
+      functionString: string;
+      explanation?: string;
+      // snd_ode: the launch angle the hint was worked out for, when it differs from the shooter's.
+      angle?: number;
+      debug?: { events: HintLlmDebugEvent[] };
+    }
+  | { type: "replay.data"; replay: MatchReplay | null };
 
-export const PROTOCOL_VERSION = 8 as const;
+export const PROTOCOL_VERSION = 24 as const;
 
 export * from "./gameConstants";
 export * from "./game/physics";
 export * from "./game/terrain";
+export * from "./game/bitmap";
+export * from "./game/generators";
+export * from "./game/customMap";
+export * from "./game/replay";
+export * from "./protocol/validate";
 export * from "./function/parse";
 export * from "./function/evaluate";
+export * from "./function/compile";
 export * from "./math/random";
 
 export function safeParseJsonMessage(raw: string): unknown {
@@ -0,0 +1,254 @@
+import type { ClientToServerMessage, DifficultyMode, MatchPreset } from "../index";
+import { BOT_DIFFICULTIES, GAME_CONSTANTS, GAME_MODES, MAP_STYLES } from "../gameConstants";
+import { CUSTOM_MAP_FORMAT, CUSTOM_MAP_LIMITS, CUSTOM_MAP_VERSION, type CustomMap } from "../game/customMap";
+
+export type ClientMessageValidation =
+  | { ok: true; msg: ClientToServerMessage }
+  | { ok: false; field: string; message: string };
+
+const MATCH_PRESETS: readonly MatchPreset[] = ["1vX", "2v2", "4v4"];
+const DIFFICULTY_MODES: readonly DifficultyMode[] = ["practice", "hard"];
+
+// Generous upper bounds: the server still trims/clamps, these only reject garbage early.
+const MAX_NAME_LENGTH = 64;
+const MAX_ID_LENGTH = 64;
+const MAX_TOKEN_LENGTH = 128;
+const MAX_CHAT_LENGTH = 1000;
+const MAX_FUNCTION_LENGTH = 2000;
+
+class FieldError extends Error {
+  field: string;
+
+  constructor(field: string, message: string) {
+    super(message);
+    this.name = "FieldError";
+    this.field = field;
+  }
+}
+
+type Obj = Record<string, unknown>;
+
+function isObject(v: unknown): v is Obj {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function str(o: Obj, field: string, maxLength: number, opts: { optional?: boolean; nonEmpty?: boolean } = {}): void {
+  const v = o[field];
+  if (v === undefined && opts.optional) return;
+  if (typeof v !== "string") throw new FieldError(field, `${field} must be a string`);
+  if (v.length > maxLength) throw new FieldError(field, `${field} must be at most ${maxLength} characters`);
+  if (opts.nonEmpty && !v.trim()) throw new FieldError(field, `${field} must not be empty`);
+}
+
+function num(o: Obj, field: string, min: number, max: number, opts: { optional?: boolean; integer?: boolean } = {}): void {
+  const v = o[field];
+  if (v === undefined && opts.optional) return;
+  if (typeof v !== "number" || !Number.isFinite(v)) throw new FieldError(field, `${field} must be a finite number`);
+  if (opts.integer && !Number.isInteger(v)) throw new FieldError(field, `${field} must be an integer`);
+  if (v < min || v > max) throw new FieldError(field, `${field} must be between ${min} and ${max}`);
+}
+
+function bool(o: Obj, field: string, opts: { optional?: boolean } = {}): void {
+  const v = o[field];
+  if (v === undefined && opts.optional) return;
+  if (typeof v !== "boolean") throw new FieldError(field, `${field} must be a boolean`);
+}
+
+function oneOf<T>(o: Obj, field: string, allowed: readonly T[], opts: { optional?: boolean } = {}): void {
+  const v = o[field];
+  if (v === undefined && opts.optional) return;
+  if (!allowed.includes(v as T)) throw new FieldError(field, `${field} must be one of ${allowed.join(", ")}`);
+}
+
+function nested(o: Obj, field: string, check: (inner: Obj) => void, opts: { optional?: boolean } = {}): void {
+  const v = o[field];
+  if (v === undefined && opts.optional) return;
+  if (!isObject(v)) throw new FieldError(field, `${field} must be an object`);
+  try {
+    check(v);
+  } catch (e) {
+    if (e instanceof FieldError) throw new FieldError(`${field}.${e.field}`, `${field}.${e.message}`);
+    throw e;
+  }
+}
+
+function list(o: Obj, field: string, maxLength: number, check: (item: Obj) => void): void {
+  const v = o[field];
+  if (!Array.isArray(v)) throw new FieldError(field, `${field} must be an array`);
+  if (v.length > maxLength) throw new FieldError(field, `${field} must have at most ${maxLength} entries`);
+  v.forEach((item, i) => {
+    const at = `${field}[${i}]`;
+    if (!isObject(item)) throw new FieldError(at, `${at} must be an object`);
+    try {
+      check(item);
+    } catch (e) {
+      if (e instanceof FieldError) throw new FieldError(`${at}.${e.field}`, `${at}.${e.message}`);
+      throw e;
+    }
+  });
+}
+
+function point(inner: Obj): void {
+  num(inner, "x", -1e6, 1e6);
+  num(inner, "y", -1e6, 1e6);
+}
+
+function roomConfigInput(inner: Obj): void {
+  oneOf(inner, "preset", MATCH_PRESETS, { optional: true });
+  oneOf(inner, "difficulty", DIFFICULTY_MODES, { optional: true });
+  num(inner, "soldiersPerPlayer", 1, GAME_CONSTANTS.MAX_SOLDIERS_PER_PLAYER, { optional: true, integer: true });
+  oneOf(inner, "mode", GAME_MODES, { optional: true });
+  bool(inner, "perTurnMode", { optional: true });
+  oneOf(inner, "mapStyle", MAP_STYLES, { optional: true });
+  num(inner, "hintsPerMatch", 0, GAME_CONSTANTS.MAX_HINTS_PER_MATCH, { optional: true, integer: true });
+  num(inner, "hintCooldownTurns", 0, GAME_CONSTANTS.MAX_HINT_COOLDOWN_TURNS, { optional: true, integer: true });
+  num(inner, "hintKillPenalty", 0, 1, { optional: true });
+}
+
+function planePoint(inner: Obj): void {
+  num(inner, "x", 0, GAME_CONSTANTS.PLANE_LENGTH);
+  num(inner, "y", 0, GAME_CONSTANTS.PLANE_HEIGHT);
+}
+
+function customMap(inner: Obj): void {
+  oneOf(inner, "format", [CUSTOM_MAP_FORMAT]);
+  oneOf(inner, "version", [CUSTOM_MAP_VERSION]);
+  str(inner, "name", MAX_NAME_LENGTH, { nonEmpty: true });
+  list(inner, "circles", CUSTOM_MAP_LIMITS.MAX_CIRCLES, (c) => {
+    planePoint(c);
+    num(c, "r", 1, CUSTOM_MAP_LIMITS.MAX_CIRCLE_RADIUS);
+  });
+  list(inner, "spawnZones", CUSTOM_MAP_LIMITS.MAX_SPAWN_ZONES, (z) => {
+    oneOf(z, "team", [1, 2]);
+    planePoint(z);
+    num(z, "w", 1, GAME_CONSTANTS.PLANE_LENGTH - (z.x as number));
+    num(z, "h", 1, GAME_CONSTANTS.PLANE_HEIGHT - (z.y as number));
+  });
+  list(inner, "fixedSpawns", CUSTOM_MAP_LIMITS.MAX_FIXED_SPAWNS, (f) => {
+    oneOf(f, "team", [1, 2]);
+    planePoint(f);
+  });
+}
+
+function checkFields(o: Obj): void {
+  const type = o.type as ClientToServerMessage["type"];
+  switch (type) {
+    case "hello":
+      return str(o, "name", MAX_NAME_LENGTH, { nonEmpty: true });
+    case "session.resume":
+      return str(o, "sessionToken", MAX_TOKEN_LENGTH, { nonEmpty: true });
+    case "lobby.listRooms":
+    case "room.leave":
+    case "game.surrender":
+    case "replay.get":
+      return;
+    case "stats.get":
+      return num(o, "top", 1, GAME_CONSTANTS.MAX_LIST_TOP, { optional: true, integer: true });
+    case "room.create":
+      str(o, "name", MAX_NAME_LENGTH);
+      num(o, "mapId", 1, Number.MAX_SAFE_INTEGER, { optional: true, integer: true });
+      return nested(o, "config", roomConfigInput, { optional: true });
+    case "room.join":
+    case "room.spectate":
+      return str(o, "roomId", MAX_ID_LENGTH, { nonEmpty: true });
+    case "chat.send":
+      return str(o, "text", MAX_CHAT_LENGTH);
+    case "player.ready":
+      return bool(o, "ready");
+    case "game.start":
+      return num(o, "seed", 0, 0xffffffff, { optional: true, integer: true });
+    case "game.setMode":
+      return oneOf(o, "mode", GAME_MODES);
+    case "game.setDifficulty":
+      return oneOf(o, "difficulty", DIFFICULTY_MODES);
+    case "room.setConfig":
+      return nested(o, "config", roomConfigInput);
+    case "room.setMap":
+      // null goes back to the generated map for RoomConfig.mapStyle.
+      if (o.map === null) return;
+      return nested(o, "map", customMap);
+    case "room.addBot":
+      str(o, "name", MAX_NAME_LENGTH, { optional: true });
+      return oneOf(o, "difficulty", BOT_DIFFICULTIES, { optional: true });
+    case "room.removeBot":
+      return str(o, "clientId", MAX_ID_LENGTH, { nonEmpty: true });
+    case "hint.request":
+      return nested(
+        o,
+        "payload",
+        (p) => {
+          nested(p, "shooter", point);
+          nested(p, "target", point);
+          bool(p, "debug", { optional: true });
+        },
+        { optional: true },
+      );
+    case "maps.list":
+      return num(o, "top", 1, GAME_CONSTANTS.MAX_LIST_TOP, { optional: true, integer: true });
+    case "maps.search":
+      str(o, "query", MAX_NAME_LENGTH);
+      return num(o, "top", 1, GAME_CONSTANTS.MAX_LIST_TOP, { optional: true, integer: true });
+    case "maps.save":
+      return nested(o, "map", customMap);
+    case "maps.delete":
+      num(o, "id", 1, Number.MAX_SAFE_INTEGER, { integer: true });
+      return str(o, "editKey", MAX_TOKEN_LENGTH, { nonEmpty: true });
+    case "game.setAngle":
+      return num(o, "angle", -Math.PI, Math.PI);
+    case "game.fire":
+      return str(o, "functionString", MAX_FUNCTION_LENGTH);
+    default: {
+      const unknownType: never = type;
+      throw new FieldError("type", `Unknown message type: ${String(unknownType).slice(0, 40)}`);
+    }
+  }
+}
+
+// Checks every field of a decoded client message against its variant's types and bounds.
+// Shared so the client can refuse to send what the server would reject.
+export function validateClientMessage(value: unknown): ClientMessageValidation {
+  if (!isObject(value)) return { ok: false, field: "", message: "Message must be a JSON object" };
+  if (typeof value.type !== "string") return { ok: false, field: "type", message: "type must be a string" };
+
+  try {
+    str(value, "requestId", MAX_ID_LENGTH, { optional: true });
+    checkFields(value);
+  } catch (e) {
+    if (e instanceof FieldError) {
+      const message = e.field === "type" ? e.message : `Invalid ${value.type}: ${e.message}`;
+      return { ok: false, field: e.field, message };
+    }
+    throw e;
+  }
+  return { ok: true, msg: value as ClientToServerMessage };
+}
+
+export type CustomMapValidation = { ok: true; map: CustomMap } | { ok: false; field: string; message: string };
+
+// Parses a file written by exportCustomMap, with the same checks room.setMap applies.
+export function importCustomMap(text: string): CustomMapValidation {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    return { ok: false, field: "", message: "Map file is not valid JSON" };
+  }
+  if (!isObject(value) || value.format !== CUSTOM_MAP_FORMAT) {
+    return { ok: false, field: "format", message: "Not a Graphwar map file" };
+  }
+  if (value.version !== CUSTOM_MAP_VERSION) {
+    return {
+      ok: false,
+      field: "version",
+      message: `Unsupported map version ${String(value.version).slice(0, 20)} (this build reads version ${CUSTOM_MAP_VERSION})`,
+    };
+  }
+
+  try {
+    customMap(value);
+  } catch (e) {
+    if (e instanceof FieldError) return { ok: false, field: e.field, message: `Invalid map: ${e.message}` };
+    throw e;
+  }
+  return { ok: true, map: value as CustomMap };
+}